@@ -26,6 +26,12 @@ export default defineConfig([
     },
   },
   {
+    settings: {
+      // Lets n/hashbang find the `bin` entry of the built file.
+      n: {
+        convertPath: { "src/**/*.ts": ["^src/(.+)\\.ts$", "dist/$1.js"] },
+      },
+    },
     languageOptions: {
       ecmaVersion: "latest",
       sourceType: "module",
@@ -0,0 +1,66 @@
+const CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+function formatLine(prefix: string, line: string): string {
+  return line.endsWith("\n")
+    ? `${prefix}${line}`
+    : `${prefix}${line}\n\\ No newline at end of file\n`;
+}
+
+function hunkRange(start: number, length: number): string {
+  // Empty ranges point at the line before them, as in GNU diff.
+  return `${length === 0 ? start : start + 1},${length}`;
+}
+
+/**
+ * Returns a unified diff (`diff -u`) of two versions of a file, or "" when
+ * they're equal. Changes are shown as one hunk spanning from the first to the
+ * last changed line, which is exact for the single insertions the migration
+ * makes.
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  before: string,
+  after: string,
+): string {
+  if (before === after) {
+    return "";
+  }
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const start = Math.max(0, prefix - CONTEXT_LINES);
+  const aEnd = Math.min(a.length, a.length - suffix + CONTEXT_LINES);
+  const bEnd = Math.min(b.length, b.length - suffix + CONTEXT_LINES);
+  const from = hunkRange(start, aEnd - start);
+  const to = hunkRange(start, bEnd - start);
+  let out = `--- a/${fileName}\n+++ b/${fileName}\n@@ -${from} +${to} @@\n`;
+  for (const line of a.slice(start, prefix)) {
+    out += formatLine(" ", line);
+  }
+  for (const line of a.slice(prefix, a.length - suffix)) {
+    out += formatLine("-", line);
+  }
+  for (const line of b.slice(prefix, b.length - suffix)) {
+    out += formatLine("+", line);
+  }
+  for (const line of a.slice(a.length - suffix, aEnd)) {
+    out += formatLine(" ", line);
+  }
+  return out;
+}
@@ -0,0 +1,382 @@
+import { readFileSync } from "fs";
+import * as path from "path";
+import { ESLint, type Linter, type Rule } from "eslint";
+import rule from "../rules/require-use-directive-first.js";
+import { createClientFeatureCollector } from "../utils/client-features.js";
+import { readModuleDirectives } from "../utils/directive-resolver.js";
+import { DEFAULT_EXTENSIONS } from "../utils/file-filter.js";
+import { matchGlobs } from "../utils/glob.js";
+import {
+  exportsComponent,
+  type InferredDirective,
+  inferUseDirective,
+} from "../utils/infer-directive.js";
+import { resolveImport } from "../utils/resolve-import.js";
+import { createUnifiedDiff } from "./diff.js";
+import {
+  listProjectFiles,
+  scanImportSpecifiers,
+  toPosix,
+  type ProjectOptions,
+} from "./project.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+/**
+ * The rule runs under its own namespace, so the project's config can enable
+ * this plugin with other options without clashing.
+ */
+const NAMESPACE = "explicit-use-directives-migrate";
+const RULE_ID = `${NAMESPACE}/require-use-directive-first`;
+const ANALYZE_RULE_ID = `${NAMESPACE}/analyze-file`;
+
+export interface MigrateOptions extends ProjectOptions {
+  /** Directive for files without evidence; defaults to "use server". */
+  defaultDirective?: string;
+  /** Patterns of files that are client entry points even without evidence. */
+  clientEntries?: string[];
+  /**
+   * ESLint config file; by default ESLint looks it up from `rootDir`. Without
+   * one, files are parsed with ESLint's defaults (plus JSX).
+   */
+  configFile?: string;
+  /** Compute the changes without writing them. */
+  dryRun?: boolean;
+}
+
+export interface MigrationDecision {
+  /** POSIX path relative to the project root. */
+  file: string;
+  directive: string;
+  reason: string;
+  /** Low-confidence decisions are reported but never applied. */
+  confident: boolean;
+}
+
+export interface MigrationResult {
+  /** Every file missing a directive, sorted by path. */
+  decisions: MigrationDecision[];
+  /** Unified diffs of the applied (or, in a dry run, applicable) changes. */
+  diffs: string[];
+}
+
+interface FileAnalysis {
+  /** The directive the contents call for, if they give clear evidence. */
+  inferred?: InferredDirective;
+  exportsComponent: boolean;
+}
+
+interface Inference {
+  directive: string;
+  /** Set when client-only APIs or server-only exports decided it. */
+  reason?: string;
+  exportsComponent: boolean;
+}
+
+/**
+ * A rule that records what each file's contents say about its directive,
+ * with the inference `require-use-directive-first` uses for its `infer`
+ * option.
+ */
+function createAnalysisRule(
+  analyses: Map<string, FileAnalysis>,
+): Rule.RuleModule {
+  return {
+    meta: { type: "suggestion", schema: [] },
+    create(context) {
+      const clientFeatures = createClientFeatureCollector(context);
+      return {
+        ...clientFeatures.visitors,
+        "Program:exit"(node) {
+          analyses.set(context.filename, {
+            inferred: inferUseDirective(node, clientFeatures.getFeatures()),
+            exportsComponent: exportsComponent(node),
+          });
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Creates an ESLint instance that only runs `require-use-directive-first`.
+ * Given `analyses`, it also records the analysis of every file there and
+ * reports the files missing a directive; otherwise it inserts `directive`
+ * into every file missing one.
+ */
+function createESLint(
+  rootDir: string,
+  options: MigrateOptions,
+  configFile: string | true,
+  directive: string,
+  analyses?: Map<string, FileAnalysis>,
+): ESLint {
+  const extensions =
+    options.extensions && options.extensions.length > 0
+      ? options.extensions
+      : DEFAULT_EXTENSIONS;
+  const rules: Linter.RulesRecord = { [RULE_ID]: ["error", { directive }] };
+  if (analyses) {
+    rules[ANALYZE_RULE_ID] = "error";
+  }
+  const config: Linter.Config = {
+    files: extensions.map((ext) => `**/*.${ext}`),
+    plugins: {
+      [NAMESPACE]: {
+        rules: {
+          "require-use-directive-first": rule,
+          ...(analyses && {
+            "analyze-file": createAnalysisRule(analyses),
+          }),
+        },
+      },
+    },
+    languageOptions: { parserOptions: { ecmaFeatures: { jsx: true } } },
+    rules,
+  };
+  return new ESLint({
+    cwd: rootDir,
+    overrideConfigFile: configFile,
+    overrideConfig: config,
+    ruleFilter: ({ ruleId }) =>
+      ruleId === RULE_ID || ruleId === ANALYZE_RULE_ID,
+    fix: !analyses && ((message) => message.ruleId === RULE_ID),
+  });
+}
+
+/**
+ * Walks the import graph from the client entries. Everything they import
+ * runs on the client too, except "use server" modules, whose exports become
+ * references. Returns each reached module with the client module importing
+ * it.
+ */
+function walkClientGraph(
+  rootDir: string,
+  entries: readonly string[],
+  options: MigrateOptions,
+): Map<string, string> {
+  const importers = new Map<string, string>();
+  const visited = new Set(entries);
+  const queue = [...entries];
+  for (let file = queue.shift(); file; file = queue.shift()) {
+    let text;
+    try {
+      text = readFileSync(file, "utf8");
+    } catch {
+      continue;
+    }
+    for (const specifier of scanImportSpecifiers(text)) {
+      const target = resolveImport(specifier, file, {
+        tsconfigPath: options.tsconfigPath,
+      });
+      if (
+        !target ||
+        visited.has(target) ||
+        path.relative(rootDir, target).startsWith("..") ||
+        (!options.includeNodeModules &&
+          target.split(path.sep).includes("node_modules"))
+      ) {
+        continue;
+      }
+      visited.add(target);
+      importers.set(target, file);
+      if (!readModuleDirectives(target)?.includes(SERVER_DIRECTIVE)) {
+        queue.push(target);
+      }
+    }
+  }
+  return importers;
+}
+
+/**
+ * Adds directives to the files of a project that lack one, using the
+ * insertion fixer of `require-use-directive-first` through ESLint and the
+ * project's own parser config. A file gets "use client" when it uses
+ * client-only APIs, matches `clientEntries` or exports components and is
+ * imported, directly or not, by a client module; "use server" when it only
+ * exports async functions that aren't components. Files where that evidence
+ * is missing or contradictory are decided with low confidence and left for
+ * manual review.
+ */
+export async function migrate(
+  rootDir: string,
+  options: MigrateOptions = {},
+): Promise<MigrationResult> {
+  const root = path.resolve(rootDir);
+  const files = listProjectFiles(root, options);
+  const inferences = new Map<string, Inference>();
+  const parseErrors = new Map<string, string>();
+  const defaultDirective = options.defaultDirective ?? SERVER_DIRECTIVE;
+  // ESLint refuses to lint without a config file unless told to go without.
+  const configFile =
+    options.configFile ??
+    (await new ESLint({ cwd: root }).findConfigFile()) ??
+    true;
+  const analyses = new Map<string, FileAnalysis>();
+  const inferring = createESLint(
+    root,
+    options,
+    configFile,
+    defaultDirective,
+    analyses,
+  );
+  for (const result of await inferring.lintFiles(files)) {
+    for (const message of result.messages) {
+      if (message.ruleId === RULE_ID) {
+        const analysis = analyses.get(result.filePath);
+        const inferred = analysis?.inferred;
+        const component = analysis?.exportsComponent ?? false;
+        inferences.set(
+          result.filePath,
+          inferred
+            ? {
+                directive: inferred.directive,
+                reason: `the file ${inferred.reason}`,
+                exportsComponent: component,
+              }
+            : { directive: defaultDirective, exportsComponent: component },
+        );
+      } else if (message.fatal) {
+        parseErrors.set(result.filePath, message.message);
+      }
+    }
+  }
+
+  const clientEntries = options.clientEntries ?? [];
+  const entryPatterns = new Map<string, string>();
+  for (const file of files) {
+    const pattern = matchGlobs(file, clientEntries, root);
+    if (pattern !== undefined) {
+      entryPatterns.set(file, pattern);
+    }
+  }
+  const isClientEntry = (file: string) => {
+    const inference = inferences.get(file);
+    return (
+      entryPatterns.has(file) ||
+      (inference?.reason !== undefined &&
+        inference.directive === CLIENT_DIRECTIVE) ||
+      Boolean(readModuleDirectives(file)?.includes(CLIENT_DIRECTIVE))
+    );
+  };
+  const importers = walkClientGraph(
+    root,
+    files.filter(isClientEntry),
+    options,
+  );
+  const relative = (file: string) => toPosix(path.relative(root, file));
+
+  const decisions: MigrationDecision[] = [];
+  const decide = (
+    file: string,
+    directive: string,
+    reason: string,
+    confident: boolean,
+  ) => decisions.push({ file: relative(file), directive, reason, confident });
+  for (const file of files) {
+    const inference = inferences.get(file);
+    const error = parseErrors.get(file);
+    const importer = importers.get(file);
+    const pattern = entryPatterns.get(file);
+    if (error !== undefined) {
+      decide(file, defaultDirective, `could not be parsed: ${error}`, false);
+    } else if (!inference) {
+      continue;
+    } else if (inference.reason && inference.directive === CLIENT_DIRECTIVE) {
+      decide(file, CLIENT_DIRECTIVE, inference.reason, true);
+    } else if (pattern !== undefined) {
+      decide(file, CLIENT_DIRECTIVE, `matches client entry "${pattern}"`, true);
+    } else if (inference.reason) {
+      if (importer) {
+        decide(
+          file,
+          inference.directive,
+          `${inference.reason}, but is imported from client module \`${relative(importer)}\``,
+          false,
+        );
+      } else {
+        decide(file, inference.directive, inference.reason, true);
+      }
+    } else if (importer) {
+      // A module without components may be shared with server code, which
+      // would get client references instead of its values.
+      const reason = `is imported from client module \`${relative(importer)}\``;
+      decide(
+        file,
+        CLIENT_DIRECTIVE,
+        inference.exportsComponent
+          ? reason
+          : `${reason}, but exports no components`,
+        inference.exportsComponent,
+      );
+    } else {
+      decide(
+        file,
+        inference.directive,
+        "no client-only APIs, server-only exports or client importers found",
+        false,
+      );
+    }
+  }
+
+  const byDirective = new Map<string, string[]>();
+  for (const decision of decisions.filter((d) => d.confident)) {
+    const group = byDirective.get(decision.directive) ?? [];
+    group.push(path.join(root, decision.file));
+    byDirective.set(decision.directive, group);
+  }
+  const results: ESLint.LintResult[] = [];
+  for (const [directive, group] of byDirective) {
+    const fixing = createESLint(root, options, configFile, directive);
+    results.push(...(await fixing.lintFiles(group)));
+  }
+  const diffs: string[] = [];
+  for (const result of results) {
+    if (result.output !== undefined) {
+      diffs.push(
+        createUnifiedDiff(
+          relative(result.filePath),
+          readFileSync(result.filePath, "utf8"),
+          result.output,
+        ),
+      );
+    }
+  }
+  if (!options.dryRun) {
+    await ESLint.outputFixes(results);
+  }
+  return { decisions, diffs: diffs.sort() };
+}
+
+/** Lists the low-confidence decisions for manual review. */
+export function formatReviewReport(
+  result: MigrationResult,
+  format: "json" | "markdown",
+): string {
+  const pending = result.decisions.filter((d) => !d.confident);
+  if (format === "json") {
+    return `${JSON.stringify(pending, null, 2)}\n`;
+  }
+  const lines = [
+    "# Files to review",
+    "",
+    "These files were left unchanged because the migration couldn't tell",
+    "reliably which directive they need.",
+    "",
+  ];
+  if (pending.length === 0) {
+    lines.push("Nothing to review.");
+  } else {
+    lines.push(
+      "| File | Suggested directive | Reason |",
+      "| --- | --- | --- |",
+    );
+    for (const decision of pending) {
+      lines.push(
+        `| \`${decision.file}\` | "${decision.directive}" | ${decision.reason} |`,
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,125 @@
+import { readdirSync } from "fs";
+import * as path from "path";
+import {
+  hasSelectedExtension,
+  isPathSelected,
+  type FileFilterOptions,
+} from "../utils/file-filter.js";
+
+/** File selection and import resolution shared by the commands. */
+export interface ProjectOptions extends FileFilterOptions {
+  /** tsconfig.json to read `paths` from; defaults to the nearest one. */
+  tsconfigPath?: string;
+}
+
+export function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+function collectFiles(
+  dir: string,
+  includeNodeModules: boolean,
+  files: string[],
+): void {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    // Pruned here for speed only; `ignore` still decides about every file.
+    if (
+      entry.name === ".git" ||
+      (entry.name === "node_modules" && !includeNodeModules)
+    ) {
+      continue;
+    }
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      collectFiles(entryPath, includeNodeModules, files);
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+}
+
+/**
+ * Replaces comments with spaces, leaving string and template literals alone,
+ * so commented-out imports aren't picked up.
+ */
+function maskComments(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+    if (ch === '"' || ch === "'" || ch === "`") {
+      let end = i + 1;
+      while (end < text.length && text[end] !== ch) {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      out += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      out += text.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+const STATIC_IMPORT =
+  /(?<![\w$.])(?:import|export)\s+(type\s+)?([\w$*{}\s,]*?)\s*from\s*(["'])([^"'\r\n]+)\3/g;
+const BARE_IMPORT = /(?<![\w$.])import\s*(["'])([^"'\r\n]+)\1/g;
+const DYNAMIC_IMPORT = /(?<![\w$.])import\s*\(\s*(["'])([^"'\r\n]+)\1\s*\)/g;
+
+/**
+ * Lists the specifiers a module imports or re-exports at runtime, including
+ * `import()` calls. Type-only imports are skipped. This is a lexical scan,
+ * not a parse, which keeps a walk over a large project fast.
+ */
+export function scanImportSpecifiers(text: string): string[] {
+  const code = maskComments(text);
+  const specifiers = new Set<string>();
+  for (const match of code.matchAll(STATIC_IMPORT)) {
+    // `import type from "x"` imports a default export named `type`.
+    if (!match[1] || !match[2]) {
+      specifiers.add(match[4]!);
+    }
+  }
+  for (const match of code.matchAll(BARE_IMPORT)) {
+    specifiers.add(match[2]!);
+  }
+  for (const match of code.matchAll(DYNAMIC_IMPORT)) {
+    specifiers.add(match[2]!);
+  }
+  return [...specifiers];
+}
+
+/**
+ * Lists the files under `rootDir` that `require-use-directive-first` would
+ * check with the same `extensions`, `ignore`, `include` and
+ * `includeNodeModules`, sorted. Patterns match relative to `rootDir`.
+ */
+export function listProjectFiles(
+  rootDir: string,
+  options: FileFilterOptions,
+): string[] {
+  const files: string[] = [];
+  collectFiles(rootDir, options.includeNodeModules ?? false, files);
+  return files
+    .filter(
+      (file) =>
+        isPathSelected(file, options, rootDir) &&
+        hasSelectedExtension(file, options.extensions),
+    )
+    .sort();
+}
@@ -0,0 +1,208 @@
+import { readFileSync } from "fs";
+import * as path from "path";
+import {
+  readModuleDirectives,
+  resolveModuleDirectives,
+} from "../utils/directive-resolver.js";
+import {
+  listProjectFiles,
+  scanImportSpecifiers,
+  toPosix,
+  type ProjectOptions,
+} from "./project.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+export const REPORT_FORMATS = ["json", "markdown", "dot"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface DirectiveCounts {
+  files: number;
+  client: number;
+  server: number;
+  /** Files with neither "use client" nor "use server". */
+  missing: number;
+}
+
+export interface DirectoryReport extends DirectiveCounts {
+  /** POSIX path relative to the project root; "." for the root itself. */
+  directory: string;
+}
+
+/** An import from a non-client module of a "use client" module. */
+export interface BoundaryEdge {
+  from: string;
+  to: string;
+  specifier: string;
+}
+
+export interface Report {
+  totals: DirectiveCounts;
+  directories: DirectoryReport[];
+  boundaries: BoundaryEdge[];
+}
+
+function emptyCounts(): DirectiveCounts {
+  return { files: 0, client: 0, server: 0, missing: 0 };
+}
+
+/**
+ * Walks `rootDir` with the file selection of `require-use-directive-first`
+ * and counts the directives of every selected file per directory. Every
+ * import of a "use client" module from a file without that directive is a
+ * boundary edge. Paths are POSIX paths relative to `rootDir`, and patterns
+ * match relative to it too. Everything is sorted, so reports of the same
+ * tree are identical and diff cleanly over time.
+ */
+export function createReport(
+  rootDir: string,
+  options: ProjectOptions = {},
+): Report {
+  const root = path.resolve(rootDir);
+
+  const totals = emptyCounts();
+  const directories = new Map<string, DirectiveCounts>();
+  const boundaries: BoundaryEdge[] = [];
+  for (const file of listProjectFiles(root, options)) {
+    const directives = readModuleDirectives(file) ?? [];
+    const relative = toPosix(path.relative(root, file));
+    const directory = path.posix.dirname(relative);
+    let counts = directories.get(directory);
+    if (!counts) {
+      counts = emptyCounts();
+      directories.set(directory, counts);
+    }
+
+    const isClient = directives.includes(CLIENT_DIRECTIVE);
+    const isServer = directives.includes(SERVER_DIRECTIVE);
+    for (const target of [counts, totals]) {
+      target.files++;
+      target.client += isClient ? 1 : 0;
+      target.server += isServer ? 1 : 0;
+      target.missing += isClient || isServer ? 0 : 1;
+    }
+    if (isClient) {
+      continue;
+    }
+
+    let text;
+    try {
+      text = readFileSync(file, "utf8");
+    } catch {
+      continue;
+    }
+    for (const specifier of scanImportSpecifiers(text)) {
+      const resolved = resolveModuleDirectives(specifier, file, {
+        tsconfigPath: options.tsconfigPath,
+      });
+      if (resolved?.directives.includes(CLIENT_DIRECTIVE)) {
+        boundaries.push({
+          from: relative,
+          to: toPosix(path.relative(root, resolved.path)),
+          specifier,
+        });
+      }
+    }
+  }
+
+  return {
+    totals,
+    directories: [...directories]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([directory, counts]) => ({ directory, ...counts })),
+    boundaries,
+  };
+}
+
+function formatMarkdown(report: Report): string {
+  const lines = [
+    "# Directive report",
+    "",
+    '| Directory | Files | "use client" | "use server" | Missing |',
+    "| --- | ---: | ---: | ---: | ---: |",
+  ];
+  const row = (name: string, counts: DirectiveCounts) =>
+    `| ${name} | ${counts.files} | ${counts.client} | ${counts.server} | ${counts.missing} |`;
+  for (const directory of report.directories) {
+    lines.push(row(`\`${directory.directory}\``, directory));
+  }
+  lines.push(row("**Total**", report.totals), "", "## Client boundaries", "");
+  if (report.boundaries.length === 0) {
+    lines.push("No client boundaries found.");
+  } else {
+    lines.push("| From | Import | To |", "| --- | --- | --- |");
+    for (const edge of report.boundaries) {
+      lines.push(
+        `| \`${edge.from}\` | \`${edge.specifier}\` | \`${edge.to}\` |`,
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Renders the boundary edges as a Graphviz graph. Files are grouped into one
+ * cluster per directory, labelled with that directory's counts; client
+ * modules are filled.
+ */
+function formatDot(report: Report): string {
+  const clientFiles = new Set(report.boundaries.map((edge) => edge.to));
+  const filesByDirectory = new Map<string, Set<string>>();
+  for (const edge of report.boundaries) {
+    for (const file of [edge.from, edge.to]) {
+      const directory = path.posix.dirname(file);
+      const files = filesByDirectory.get(directory) ?? new Set<string>();
+      filesByDirectory.set(directory, files.add(file));
+    }
+  }
+  const countsByDirectory = new Map(
+    report.directories.map((d) => [d.directory, d] as const),
+  );
+
+  const lines = [
+    "digraph directives {",
+    "  rankdir=LR;",
+    "  node [shape=box];",
+  ];
+  let cluster = 0;
+  for (const directory of [...filesByDirectory.keys()].sort()) {
+    const counts = countsByDirectory.get(directory);
+    const label = counts
+      ? `${directory} (client ${counts.client}, server ${counts.server}, missing ${counts.missing})`
+      : directory;
+    lines.push(
+      `  subgraph cluster_${cluster++} {`,
+      `    label=${quoteDot(label)};`,
+    );
+    for (const file of [...filesByDirectory.get(directory)!].sort()) {
+      const style = clientFiles.has(file)
+        ? " [style=filled, fillcolor=lightblue]"
+        : "";
+      lines.push(`    ${quoteDot(file)}${style};`);
+    }
+    lines.push("  }");
+  }
+  for (const edge of report.boundaries) {
+    lines.push(
+      `  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [label=${quoteDot(edge.specifier)}];`,
+    );
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatReport(report: Report, format: ReportFormat): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case "markdown":
+      return formatMarkdown(report);
+    case "dot":
+      return formatDot(report);
+  }
+}
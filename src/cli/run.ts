@@ -0,0 +1,258 @@
+import { writeFileSync } from "fs";
+import * as path from "path";
+import { formatReviewReport, migrate } from "./migrate.js";
+import type { ProjectOptions } from "./project.js";
+import {
+  createReport,
+  formatReport,
+  REPORT_FORMATS,
+  type ReportFormat,
+} from "./report.js";
+
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  cwd: string;
+}
+
+const USAGE = `Usage: explicit-use-directives <command> [dir] [options]
+
+Commands:
+  report [dir]                   Summarize directives and client boundaries
+  migrate [dir]                  Add directives to files that lack one
+
+Options for both:
+  --extensions <ext,...>         Extensions to include (default: jsx,tsx)
+  --ignore <glob>                Ignore matching files; repeatable
+  --include <glob>               Only include matching files; repeatable
+  --include-node-modules         Also walk node_modules
+  --tsconfig <path>              tsconfig.json to read \`paths\` from
+  -h, --help                     Show this help
+
+Options for report:
+  --format <json|markdown|dot>   Output format (default: markdown)
+
+Options for migrate:
+  --client-entry <glob>          Treat matching files as client entry points;
+                                 repeatable
+  --default <directive>          Directive for files without evidence
+                                 (default: "use server")
+  --dry-run                      Print unified diffs instead of writing
+  --review-report <file>         Write the low-confidence files to review
+                                 (Markdown, or JSON for .json files)
+  --config <file>                ESLint config file to use
+`;
+
+class UsageError extends Error {}
+
+interface OptionSpec {
+  /** Options taking one value; `--name value` and `--name=value` work. */
+  values: readonly string[];
+  /** Options taking a value that may be repeated. */
+  lists: readonly string[];
+  flags: readonly string[];
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  values: Map<string, string>;
+  lists: Map<string, string[]>;
+  flags: Set<string>;
+}
+
+const PROJECT_OPTIONS: OptionSpec = {
+  values: ["tsconfig"],
+  lists: ["extensions", "ignore", "include"],
+  flags: ["include-node-modules", "help"],
+};
+
+function parseArgs(args: readonly string[], spec: OptionSpec): ParsedArgs {
+  const parsed: ParsedArgs = {
+    positionals: [],
+    values: new Map(),
+    lists: new Map(),
+    flags: new Set(),
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("-") || arg === "-") {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    if (arg === "-h") {
+      parsed.flags.add("help");
+      continue;
+    }
+    const [name = "", inline] = arg.startsWith("--")
+      ? arg.slice(2).split(/=(.*)/s)
+      : [];
+    if (spec.flags.includes(name) && inline === undefined) {
+      parsed.flags.add(name);
+      continue;
+    }
+    if (!spec.values.includes(name) && !spec.lists.includes(name)) {
+      throw new UsageError(`Unknown option "${arg}"`);
+    }
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new UsageError(`Option "--${name}" needs a value`);
+    }
+    if (spec.lists.includes(name)) {
+      parsed.lists.set(name, [...(parsed.lists.get(name) ?? []), value]);
+    } else {
+      parsed.values.set(name, value);
+    }
+  }
+  if (parsed.positionals.length > 1) {
+    throw new UsageError("Expected at most one directory");
+  }
+  return parsed;
+}
+
+function readProjectOptions(parsed: ParsedArgs, io: CliIo): ProjectOptions {
+  const tsconfig = parsed.values.get("tsconfig");
+  return {
+    extensions: (parsed.lists.get("extensions") ?? [])
+      .flatMap((list) => list.split(","))
+      .map((ext) => ext.trim().replace(/^\./, ""))
+      .filter(Boolean),
+    ignore: parsed.lists.get("ignore"),
+    include: parsed.lists.get("include"),
+    includeNodeModules: parsed.flags.has("include-node-modules"),
+    tsconfigPath: tsconfig && path.resolve(io.cwd, tsconfig),
+  };
+}
+
+const defaultIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  cwd: process.cwd(),
+};
+
+function isReportFormat(format: string): format is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(format);
+}
+
+function report(args: readonly string[], io: CliIo): number {
+  const parsed = parseArgs(args, {
+    ...PROJECT_OPTIONS,
+    values: [...PROJECT_OPTIONS.values, "format"],
+  });
+  if (parsed.flags.has("help")) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  const format = parsed.values.get("format") ?? "markdown";
+  if (!isReportFormat(format)) {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+
+  const rootDir = path.resolve(io.cwd, parsed.positionals[0] ?? ".");
+  const result = createReport(rootDir, readProjectOptions(parsed, io));
+  io.stdout(formatReport(result, format));
+  return 0;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+async function migrateCommand(
+  args: readonly string[],
+  io: CliIo,
+): Promise<number> {
+  const parsed = parseArgs(args, {
+    values: [...PROJECT_OPTIONS.values, "default", "review-report", "config"],
+    lists: [...PROJECT_OPTIONS.lists, "client-entry"],
+    flags: [...PROJECT_OPTIONS.flags, "dry-run"],
+  });
+  if (parsed.flags.has("help")) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  const config = parsed.values.get("config");
+  const dryRun = parsed.flags.has("dry-run");
+
+  const rootDir = path.resolve(io.cwd, parsed.positionals[0] ?? ".");
+  const result = await migrate(rootDir, {
+    ...readProjectOptions(parsed, io),
+    defaultDirective: parsed.values.get("default"),
+    clientEntries: parsed.lists.get("client-entry"),
+    configFile: config && path.resolve(io.cwd, config),
+    dryRun,
+  });
+
+  // In a dry run the diffs are the output, so the summary goes to stderr.
+  const summary = dryRun ? io.stderr : io.stdout;
+  if (dryRun) {
+    io.stdout(result.diffs.join(""));
+  }
+  const applied = result.decisions.filter((d) => d.confident);
+  const pending = result.decisions.filter((d) => !d.confident);
+  const counts = [...new Set(applied.map((d) => d.directive))]
+    .sort()
+    .map((directive) => {
+      const count = applied.filter((d) => d.directive === directive).length;
+      return `"${directive}": ${count}`;
+    });
+  const verb = dryRun ? "Would add" : "Added";
+  const details = counts.length > 0 ? ` (${counts.join(", ")})` : "";
+  summary(
+    `${verb} directives to ${plural(applied.length, "file")}${details}.\n`,
+  );
+  if (pending.length > 0) {
+    summary(
+      `${plural(pending.length, "low-confidence file")} left unchanged:\n`,
+    );
+    for (const decision of pending) {
+      summary(
+        `  ${decision.file}: "${decision.directive}"? ${decision.reason}\n`,
+      );
+    }
+  }
+
+  const reviewReport = parsed.values.get("review-report");
+  if (reviewReport) {
+    const reportPath = path.resolve(io.cwd, reviewReport);
+    writeFileSync(
+      reportPath,
+      formatReviewReport(
+        result,
+        reportPath.endsWith(".json") ? "json" : "markdown",
+      ),
+    );
+  }
+  return 0;
+}
+
+/**
+ * Runs the command line with the arguments after the executable and resolves
+ * to the exit code: 0 on success and 2 for usage errors.
+ */
+export async function run(
+  argv: readonly string[],
+  io: CliIo = defaultIo,
+): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    switch (command) {
+      case "report":
+        return report(args, io);
+      case "migrate":
+        return await migrateCommand(args, io);
+      case undefined:
+      case "-h":
+      case "--help":
+        io.stdout(USAGE);
+        return command === undefined ? 2 : 0;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`explicit-use-directives: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+}
@@ -2,6 +2,19 @@ import { readFileSync } from "fs";
 import type { ESLint } from "eslint";
 import rule from "./rules/require-use-directive-first.js";
 import emptyLineRule from "./rules/empty-line-after-use-directive.js";
+import requireUseClientRule from "./rules/require-use-client-for-client-apis.js";
+import asyncServerExportsRule from "./rules/require-async-server-exports.js";
+import serverImportsRule from "./rules/no-server-imports-in-client-modules.js";
+import misplacedDirectiveRule from "./rules/no-misplaced-use-directive.js";
+import conflictingDirectivesRule from "./rules/no-conflicting-use-directives.js";
+import unknownDirectiveRule from "./rules/no-unknown-use-directive.js";
+import directiveStyleRule from "./rules/use-directive-style.js";
+import nextjsConventionsRule from "./rules/nextjs-app-router-conventions.js";
+import unnecessaryUseClientRule from "./rules/no-unnecessary-use-client.js";
+import directiveOrderRule from "./rules/use-directive-order.js";
+import functionDirectivesRule from "./rules/valid-function-directives.js";
+import serializableActionsRule from "./rules/require-serializable-server-actions.js";
+import clientPropsRule from "./rules/no-non-serializable-client-props.js";
 
 const pkg = JSON.parse(
   readFileSync(new URL("../package.json", import.meta.url), "utf8"),
@@ -16,13 +29,45 @@ const plugin: ESLint.Plugin = {
   rules: {
     "require-use-directive-first": rule,
     "empty-line-after-use-directive": emptyLineRule,
+    "require-use-client-for-client-apis": requireUseClientRule,
+    "require-async-server-exports": asyncServerExportsRule,
+    "no-server-imports-in-client-modules": serverImportsRule,
+    "no-misplaced-use-directive": misplacedDirectiveRule,
+    "no-conflicting-use-directives": conflictingDirectivesRule,
+    "no-unknown-use-directive": unknownDirectiveRule,
+    "use-directive-style": directiveStyleRule,
+    "nextjs-app-router-conventions": nextjsConventionsRule,
+    "no-unnecessary-use-client": unnecessaryUseClientRule,
+    "use-directive-order": directiveOrderRule,
+    "valid-function-directives": functionDirectivesRule,
+    "require-serializable-server-actions": serializableActionsRule,
+    "no-non-serializable-client-props": clientPropsRule,
   },
   configs: {
     "prefer-use-client": {},
     "prefer-use-server": {},
+    "nextjs-app-router": {},
   },
 };
 
+/**
+ * App Router special files and the directive each needs; `null` means the
+ * file is a Server Component (or never renders) and needs none.
+ */
+const NEXTJS_SPECIAL_FILES: [string, string | null][] = [
+  ["error", "use client"],
+  ["global-error", "use client"],
+  ["layout", null],
+  ["page", null],
+  ["template", null],
+  ["loading", null],
+  ["not-found", null],
+  ["default", null],
+  ["route", null],
+];
+
+const NEXTJS_EXTENSIONS = ["js", "jsx", "ts", "tsx"];
+
 if (!plugin.configs) {
   throw new Error("plugin.configs is undefined");
 }
@@ -57,6 +102,48 @@ Object.assign(plugin.configs, {
       ],
     },
   },
+  "nextjs-app-router": {
+    name: "explicit-use-directives/nextjs-app-router",
+    plugins: { "explicit-use-directives": plugin },
+    rules: {
+      "explicit-use-directives/require-use-directive-first": [
+        "error",
+        {
+          directive: "use client",
+          infer: true,
+          // Static components could go either way, so a human picks the
+          // directive; error boundaries are fixed by the conventions rule.
+          fixMode: "suggest",
+          overrides: [
+            ...NEXTJS_SPECIAL_FILES.map(([name, directive]) => ({
+              files: NEXTJS_EXTENSIONS.map(
+                (ext) => `**/app/**/${name}.${ext}`,
+              ),
+              directive,
+            })),
+            {
+              files: ["middleware", "instrumentation"].flatMap((name) =>
+                NEXTJS_EXTENSIONS.map((ext) => `**/${name}.${ext}`),
+              ),
+              directive: null,
+            },
+          ],
+        },
+      ],
+      "explicit-use-directives/empty-line-after-use-directive": [
+        "error",
+        "always",
+      ],
+      "explicit-use-directives/nextjs-app-router-conventions": "error",
+      "explicit-use-directives/require-use-client-for-client-apis": "error",
+      "explicit-use-directives/require-async-server-exports": "error",
+      "explicit-use-directives/no-server-imports-in-client-modules": "error",
+      "explicit-use-directives/no-conflicting-use-directives": "error",
+      "explicit-use-directives/valid-function-directives": "error",
+    },
+  },
 });
 
+export { directiveFingerprint } from "./utils/directive-resolver.js";
+
 export default plugin;
@@ -1,13 +1,49 @@
-import type { Rule } from "eslint";
+import type { Rule, SourceCode } from "eslint";
+import { detectNewline, getDirectivePrologue } from "../utils/directives.js";
 
-type Option = "always" | "never";
-type Options = [Option?];
+type Spacing = "always" | "never";
+type TokenOrComment = Parameters<SourceCode["getTokenAfter"]>[0];
+
+interface CommentOptions {
+  /**
+   * Whether a comment on the line right below a directive counts as the next
+   * line. When false, such comments belong to the directive and the blank
+   * line is expected after them. Default: true.
+   */
+  countAttachedComments?: boolean;
+}
+
+interface PaddingOptions extends CommentOptions {
+  /** Blank line after the last directive. Default: "always". */
+  after?: Spacing;
+  /** Blank lines between consecutive directives. Default: "any". */
+  between?: Spacing | "any";
+  /**
+   * Blank line between a header comment (e.g. a license) and the first
+   * directive. Default: "any".
+   */
+  beforeFirst?: Spacing | "any";
+}
+
+/**
+ * The string form only configures `after`; it is kept for backward
+ * compatibility and may be followed by the comment options.
+ */
+type Options = [(Spacing | PaddingOptions)?, CommentOptions?];
+
+const SPACING_OR_ANY = { enum: ["always", "never", "any"] };
 
 /**
  * Enforce a single blank line after the last top-of-file "use ..." directive.
  * Options:
  * - "always" (default): require exactly one blank line after the directive
  * - "never": require no blank line (only a single newline) after the directive
+ * - an object with `after` (as above), `between` and `beforeFirst` to also
+ *   pad between directives and after a header comment
+ *
+ * Whitespace at the very start of the file is always removed.
+ * The gap is measured to the next comment or token, and fixes only touch the
+ * whitespace in between, so comments are never removed.
  */
 const rule: Rule.RuleModule = {
   meta: {
@@ -20,109 +56,203 @@ const rule: Rule.RuleModule = {
     fixable: "whitespace",
     schema: [
       {
-        enum: ["always", "never"],
         description:
-          "Whether to require (always) or forbid (never) a blank line after the directive",
+          "Layout after the last directive, or an object with `after`, `between` and `beforeFirst`",
+        anyOf: [
+          {
+            enum: ["always", "never"],
+            description:
+              "Whether to require (always) or forbid (never) a blank line after the directive",
+          },
+          {
+            type: "object",
+            properties: {
+              after: {
+                enum: ["always", "never"],
+                description: "Blank line after the last directive",
+              },
+              between: {
+                ...SPACING_OR_ANY,
+                description: "Blank lines between consecutive directives",
+              },
+              beforeFirst: {
+                ...SPACING_OR_ANY,
+                description:
+                  "Blank line between a header comment and the first directive",
+              },
+              countAttachedComments: {
+                type: "boolean",
+                description:
+                  "Whether a comment right below a directive counts as the next line",
+              },
+            },
+            additionalProperties: false,
+          },
+        ],
+      },
+      {
+        type: "object",
+        properties: {
+          countAttachedComments: {
+            type: "boolean",
+            description:
+              "Whether a comment right below the directive counts as the next line; when false, the blank line is expected after it",
+          },
+        },
+        additionalProperties: false,
       },
     ],
-    defaultOptions: ["always"],
+    defaultOptions: ["always", {}],
     messages: {
       expectedBlank: "Expected a blank line after the `use` directive.",
       unexpectedBlank: "Unexpected blank line after the `use` directive.",
+      expectedBlankBetween: "Expected a blank line between `use` directives.",
+      unexpectedBlankBetween:
+        "Unexpected blank line between `use` directives.",
+      expectedBlankBeforeFirst:
+        "Expected a blank line between the header comment and the first `use` directive.",
+      unexpectedBlankBeforeFirst:
+        "Unexpected blank line between the header comment and the first `use` directive.",
+      unexpectedLeadingWhitespace:
+        "Unexpected whitespace at the start of the file.",
     },
   },
 
   create(context) {
-    const [mode = "always"] = context.options as Options;
+    const [layout = "always", commentOptions = {}] =
+      context.options as Options;
+    const {
+      after = "always",
+      between = "any",
+      beforeFirst = "any",
+      countAttachedComments = true,
+    }: PaddingOptions =
+      typeof layout === "string"
+        ? { ...commentOptions, after: layout }
+        : { ...commentOptions, ...layout };
     const sourceCode = context.sourceCode;
 
-    return {
-      Program(node) {
-        const body = node.body ?? [];
-        const directives: { start: number; end: number }[] = [];
-        for (const stmt of body) {
-          const dir: string | undefined = (stmt as { directive?: string })
-            .directive;
-          if (dir) {
-            const range = stmt.range;
-            if (range) {
-              directives.push({ start: range[0], end: range[1] });
-            }
-          } else {
-            break;
-          }
+    /**
+     * Returns the last comment or token that belongs to the directive: its
+     * trailing same-line comments and, unless attached comments count as the
+     * next line, the comments on the lines directly below it.
+     */
+    function findDirectiveEnd(directive: Rule.Node) {
+      let end: TokenOrComment = directive;
+      for (;;) {
+        const next: TokenOrComment | null = sourceCode.getTokenAfter(end, {
+          includeComments: true,
+        });
+        if (!next || (next.type !== "Line" && next.type !== "Block")) {
+          return end;
         }
-
-        if (directives.length === 0) {
-          return;
+        const line = next.loc!.start.line;
+        const endLine = end.loc!.end.line;
+        const following = sourceCode.getTokenAfter(next, {
+          includeComments: true,
+        });
+        // A comment directly above the next statement is the statement's,
+        // not the directive's.
+        const belongs =
+          line === endLine ||
+          (!countAttachedComments &&
+            line === endLine + 1 &&
+            following?.loc?.start.line !== next.loc!.end.line + 1);
+        if (!belongs) {
+          return end;
         }
+        end = next;
+      }
+    }
 
-        const last = directives[directives.length - 1]!;
-        const first = directives[0]!;
+    /**
+     * Checks the whitespace in `[start, end)`: "always" wants exactly one
+     * blank line, "never" a single line break.
+     */
+    function checkGap(
+      [start, end]: [number, number],
+      spacing: Spacing,
+      messageIds: { expected: string; unexpected: string },
+    ) {
+      const normalized = sourceCode.text
+        .slice(start, end)
+        // Normalize Windows newlines just for counting
+        .replace(/\r\n/g, "\n");
+      const beginsWithNewline = normalized.startsWith("\n");
+      const newlineCount = (normalized.match(/\n/g) ?? []).length;
+      const expectedCount = spacing === "always" ? 2 : 1;
+
+      if (
+        beginsWithNewline &&
+        newlineCount === expectedCount &&
+        !/[^\n\r\t \f\v]/.test(normalized)
+      ) {
+        return;
+      }
+      context.report({
+        node: sourceCode.ast,
+        messageId:
+          spacing === "always" ? messageIds.expected : messageIds.unexpected,
+        fix(fixer) {
+          const newline = detectNewline(sourceCode.text);
+          return fixer.replaceTextRange(
+            [start, end],
+            spacing === "always" ? newline + newline : newline,
+          );
+        },
+      });
+    }
 
-        const fullText = sourceCode.text ?? "";
+    /** The whitespace between a directive and the next comment or token. */
+    function gapAfter(directive: Rule.Node): [number, number] {
+      const end = findDirectiveEnd(directive);
+      const next = sourceCode.getTokenAfter(end, { includeComments: true });
+      return [end.range![1], next?.range?.[0] ?? sourceCode.text.length];
+    }
 
-        // Handle leading whitespace before the first directive
-        const leadingText = fullText.slice(0, first.start);
-        if (/^\s*$/.test(leadingText) && leadingText.length > 0) {
+    return {
+      Program(node) {
+        const prologue = getDirectivePrologue(node.body ?? []);
+        if (prologue.length === 0) {
+          return;
+        }
+        const firstDirective = prologue[0]!.node;
+        const fullText = sourceCode.text;
+
+        const leadingEnd = fullText.search(/\S|$/);
+        if (leadingEnd > 0) {
           context.report({
             node,
-            messageId: "expectedBlank",
+            messageId: "unexpectedLeadingWhitespace",
             fix(fixer) {
-              return fixer.replaceTextRange([0, first.start], "");
+              return fixer.removeRange([0, leadingEnd]);
             },
           });
-          return;
         }
 
-        const gapStart = last.end;
-        const nextStmt = body[directives.length];
-        const gapEnd =
-          nextStmt?.range?.[0] ?? sourceCode.text?.length ?? gapStart;
-        const gapText = fullText.slice(gapStart, gapEnd);
+        const header = sourceCode.getTokenBefore(firstDirective, {
+          includeComments: true,
+        });
+        if (beforeFirst !== "any" && header) {
+          checkGap([header.range![1], firstDirective.range![0]], beforeFirst, {
+            expected: "expectedBlankBeforeFirst",
+            unexpected: "unexpectedBlankBeforeFirst",
+          });
+        }
 
-        // Normalize Windows newlines just for counting
-        const normalized = gapText.replace(/\r\n/g, "\n");
-
-        const beginsWithNewline = normalized.startsWith("\n");
-        const newlineCount = (normalized.match(/\n/g) ?? []).length;
-
-        if (mode === "always") {
-          // Expect at least one newline; for a blank line we need two newlines
-          if (!(beginsWithNewline && newlineCount >= 2)) {
-            context.report({
-              node,
-              messageId: "expectedBlank",
-              fix(fixer) {
-                return fixer.replaceTextRange([gapStart, gapEnd], "\n\n");
-              },
-            });
-          } else if (newlineCount !== 2 || /[^\n\r\t \f\v]/.test(normalized)) {
-            // Collapse any extra blank lines or stray spaces/tabs to exactly one blank line
-            context.report({
-              node,
-              messageId: "expectedBlank",
-              fix(fixer) {
-                return fixer.replaceTextRange([gapStart, gapEnd], "\n\n");
-              },
-            });
-          }
-        } else {
-          // never: exactly one newline and no extra blanks/spaces
-          if (
-            !beginsWithNewline ||
-            newlineCount !== 1 ||
-            /[^\n\r\t \f\v]/.test(normalized)
-          ) {
-            context.report({
-              node,
-              messageId: "unexpectedBlank",
-              fix(fixer) {
-                return fixer.replaceTextRange([gapStart, gapEnd], "\n");
-              },
+        if (between !== "any") {
+          for (const directive of prologue.slice(0, -1)) {
+            checkGap(gapAfter(directive.node), between, {
+              expected: "expectedBlankBetween",
+              unexpected: "unexpectedBlankBetween",
             });
           }
         }
+
+        checkGap(gapAfter(prologue[prologue.length - 1]!.node), after, {
+          expected: "expectedBlank",
+          unexpected: "unexpectedBlank",
+        });
       },
     };
   },
@@ -0,0 +1,151 @@
+import type { Rule } from "eslint";
+import * as path from "path";
+import {
+  getDirectivePrologue,
+  insertDirective,
+  removeStatement,
+} from "../utils/directives.js";
+import { collectModuleExports } from "../utils/exports.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+/** Extensions Next.js picks special files up with. */
+const NEXT_EXTENSIONS = new Set([".js", ".jsx", ".ts", ".tsx"]);
+
+/** App Router files that must be Client Components. */
+const CLIENT_FILES = new Set(["error", "global-error"]);
+
+/** Files that never render and only run on the server. */
+const SERVER_FILES = new Map([
+  ["route", { kind: "route handler", appOnly: true }],
+  ["middleware", { kind: "middleware", appOnly: false }],
+  ["instrumentation", { kind: "instrumentation", appOnly: false }],
+]);
+
+/** Files whose metadata exports Next.js reads. */
+const METADATA_FILES = new Set(["layout", "page"]);
+
+/** Exports that Next.js only reads from Server Components. */
+const METADATA_EXPORTS = new Set([
+  "metadata",
+  "generateMetadata",
+  "viewport",
+  "generateViewport",
+]);
+
+/**
+ * Checks the directives of Next.js App Router special files: error boundaries
+ * must be "use client", route handlers, middleware and instrumentation must
+ * not be, and layouts and pages can't export metadata from "use client".
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "enforce the `use` directives that Next.js App Router special files require",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesnextjs-app-router-conventions",
+    },
+    fixable: "code",
+    hasSuggestions: true,
+    schema: [],
+    messages: {
+      requireUseClient:
+        '`{{file}}` is a Next.js error boundary, which must be a "use client" module.',
+      noUseClient:
+        '`{{file}}` is a Next.js {{kind}} file and only runs on the server; it can\'t be a "use client" module.',
+      removeUseClient: 'Remove the "use client" directive.',
+      clientMetadataExport:
+        'Next.js only reads `{{name}}` from Server Components; a "use client" `{{file}}` can\'t export it.',
+    },
+  },
+
+  create(context) {
+    const filename = context.filename;
+    if (!filename || filename.startsWith("<")) {
+      return {};
+    }
+
+    const file = path.basename(filename);
+    const ext = path.extname(file);
+    if (!NEXT_EXTENSIONS.has(ext)) {
+      return {};
+    }
+    const name = file.slice(0, -ext.length);
+    // Relative to the working directory, so that a project checked out in
+    // a directory named "app" (the usual Docker workdir) isn't all app
+    // directory.
+    const segments = path.relative(context.cwd, filename).split(path.sep);
+    const inAppDir = segments.slice(0, -1).includes("app");
+
+    const sourceCode = context.sourceCode;
+
+    return {
+      Program(node) {
+        const directives = getDirectivePrologue(node.body ?? []);
+        const useClient = directives.find((d) => d.value === CLIENT_DIRECTIVE);
+
+        if (CLIENT_FILES.has(name) && inAppDir) {
+          if (useClient) {
+            return;
+          }
+          // With "use server" already present, inserting "use client" would
+          // only trade this report for a conflict; leave that to the user.
+          const hasUseServer = directives.some(
+            (d) => d.value === SERVER_DIRECTIVE,
+          );
+          context.report({
+            node,
+            messageId: "requireUseClient",
+            data: { file },
+            fix: hasUseServer
+              ? null
+              : (fixer) => insertDirective(fixer, sourceCode, CLIENT_DIRECTIVE),
+          });
+          return;
+        }
+
+        if (!useClient) {
+          return;
+        }
+
+        const serverFile = SERVER_FILES.get(name);
+        if (serverFile && (inAppDir || !serverFile.appOnly)) {
+          context.report({
+            node: useClient.node,
+            messageId: "noUseClient",
+            data: { file, kind: serverFile.kind },
+            suggest: [
+              {
+                messageId: "removeUseClient",
+                fix(fixer) {
+                  return removeStatement(fixer, sourceCode, useClient.node);
+                },
+              },
+            ],
+          });
+          return;
+        }
+
+        if (METADATA_FILES.has(name) && inAppDir) {
+          for (const exported of collectModuleExports(sourceCode.ast)) {
+            if (
+              exported.kind !== "type" &&
+              METADATA_EXPORTS.has(exported.name)
+            ) {
+              context.report({
+                node: exported.node,
+                messageId: "clientMetadataExport",
+                data: { name: exported.name, file },
+              });
+            }
+          }
+        }
+      },
+    };
+  },
+};
+
+export default rule;
@@ -0,0 +1,127 @@
+import type { Rule } from "eslint";
+import { getDirectivePrologue, removeStatement } from "../utils/directives.js";
+import { isCacheDirective } from "../utils/known-directives.js";
+
+type Options = [
+  {
+    /**
+     * Groups of mutually exclusive directives. A prologue may contain at most
+     * one directive of each group. Defaults to [["use client", "use server"]].
+     */
+    groups?: string[][];
+  }?,
+];
+
+const DEFAULT_GROUPS = [["use client", "use server"]];
+
+const CLIENT_DIRECTIVE = "use client";
+
+/**
+ * Reports mutually exclusive directives in the same prologue (e.g. "use
+ * client" next to "use server") and removes exact duplicates. "use cache"
+ * can't be combined with "use client" regardless of `groups`.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "disallow conflicting or duplicated `use ...` directives in the prologue",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-conflicting-use-directives",
+    },
+    fixable: "code",
+    schema: [
+      {
+        type: "object",
+        properties: {
+          groups: {
+            type: "array",
+            items: {
+              type: "array",
+              items: { type: "string" },
+              minItems: 2,
+              uniqueItems: true,
+            },
+            description:
+              "Groups of mutually exclusive directives; at most one directive per group is allowed",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      conflictingDirectives:
+        '"{{directive}}" conflicts with "{{other}}"; a file can only use one of them.',
+      duplicateDirective: 'Duplicate "{{directive}}" directive.',
+      cacheRequiresServerComponent:
+        '"{{directive}}" caches the output of server code, so it only works in Server Components and server functions and can\'t be combined with "use client".',
+    },
+  },
+
+  create(context) {
+    const [{ groups = DEFAULT_GROUPS } = {}] = context.options as Options;
+    const sourceCode = context.sourceCode;
+
+    return {
+      Program(node) {
+        const directives = getDirectivePrologue(node.body ?? []);
+        const seen = new Set<string>();
+
+        for (const directive of directives) {
+          if (seen.has(directive.value)) {
+            // Only the duplicate's own line goes, so comments around it and
+            // the layout after the last remaining directive stay untouched.
+            context.report({
+              node: directive.node,
+              messageId: "duplicateDirective",
+              data: { directive: directive.value },
+              fix(fixer) {
+                return removeStatement(fixer, sourceCode, directive.node);
+              },
+            });
+            continue;
+          }
+
+          for (const group of groups) {
+            if (!group.includes(directive.value)) {
+              continue;
+            }
+            const other = [...seen].find(
+              (d) => d !== directive.value && group.includes(d),
+            );
+            if (other) {
+              context.report({
+                node: directive.node,
+                messageId: "conflictingDirectives",
+                data: { directive: directive.value, other },
+              });
+              break;
+            }
+          }
+          seen.add(directive.value);
+        }
+
+        if (directives.some((d) => d.value === CLIENT_DIRECTIVE)) {
+          const reported = new Set<string>();
+          for (const directive of directives) {
+            if (
+              isCacheDirective(directive.value) &&
+              !reported.has(directive.value)
+            ) {
+              reported.add(directive.value);
+              context.report({
+                node: directive.node,
+                messageId: "cacheRequiresServerComponent",
+                data: { directive: directive.value },
+              });
+            }
+          }
+        }
+      },
+    };
+  },
+};
+
+export default rule;
@@ -0,0 +1,74 @@
+import type { Rule } from "eslint";
+import {
+  getDirectivePrologue,
+  insertDirective,
+  removeStatement,
+} from "../utils/directives.js";
+
+/**
+ * Reports `"use ..."` strings at module level that are not part of the
+ * directive prologue (e.g. after an import) and therefore have no effect. The
+ * autofix moves the directive to the top of the file, or only deletes the
+ * stray copy when the prologue already contains it.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "disallow `use ...` directives outside of the directive prologue",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-misplaced-use-directive",
+    },
+    fixable: "code",
+    schema: [],
+    messages: {
+      misplacedDirective:
+        '"{{directive}}" has no effect here: directives must come before any other statement in the file.',
+    },
+  },
+
+  create(context) {
+    const sourceCode = context.sourceCode;
+
+    return {
+      Program(node) {
+        const body = node.body ?? [];
+        const prologue = getDirectivePrologue(body);
+        const present = new Set(prologue.map((d) => d.value));
+
+        for (const stmt of body.slice(prologue.length)) {
+          if (
+            stmt.type !== "ExpressionStatement" ||
+            stmt.expression.type !== "Literal" ||
+            typeof stmt.expression.value !== "string" ||
+            !stmt.expression.value.startsWith("use ")
+          ) {
+            continue;
+          }
+          const directive = stmt.expression.value;
+          const alreadyPresent = present.has(directive);
+          present.add(directive);
+
+          context.report({
+            node: stmt,
+            messageId: "misplacedDirective",
+            data: { directive },
+            fix(fixer) {
+              const removal = removeStatement(
+                fixer,
+                sourceCode,
+                stmt as Rule.Node,
+              );
+              return alreadyPresent
+                ? removal
+                : [insertDirective(fixer, sourceCode, directive), removal];
+            },
+          });
+        }
+      },
+    };
+  },
+};
+
+export default rule;
@@ -0,0 +1,401 @@
+import type { Rule, Scope } from "eslint";
+import {
+  resolveModuleDirectives,
+  type ResolvedModule,
+} from "../utils/directive-resolver.js";
+import { getDirectivePrologue } from "../utils/directives.js";
+import { readModuleInfo } from "../utils/module-info.js";
+
+type Options = [
+  {
+    /**
+     * tsconfig.json used to resolve `paths` aliases. Defaults to the
+     * tsconfig.json closest to the linted file.
+     */
+    tsconfigPath?: string;
+  }?,
+];
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+/** Built-in classes whose instances React serializes. */
+const SERIALIZABLE_CLASSES = new Set([
+  "Date",
+  "Map",
+  "Set",
+  "FormData",
+  "ArrayBuffer",
+  "DataView",
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+]);
+
+/** Loosely typed AST node, so TypeScript and JSX node types can be inspected. */
+interface AnyNode {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface ImportBinding {
+  source: string;
+  /** Imported name; "default" for default imports, "*" for namespaces. */
+  name: string;
+}
+
+interface Problem {
+  /** What the value is, e.g. "a function". */
+  what: string;
+  /** Property path inside the prop value. */
+  path: string[];
+}
+
+/** Strips TypeScript wrappers such as `as`, `satisfies` and `!`. */
+function unwrap(node: AnyNode): AnyNode {
+  let current = node;
+  while (
+    current.type === "TSAsExpression" ||
+    current.type === "TSSatisfiesExpression" ||
+    current.type === "TSNonNullExpression" ||
+    current.type === "TSTypeAssertion"
+  ) {
+    current = current.expression as AnyNode;
+  }
+  return current;
+}
+
+/** Whether a function is an inline server action (`"use server"` body). */
+function isInlineAction(fn: AnyNode): boolean {
+  const body = fn.body as AnyNode | undefined;
+  return (
+    body?.type === "BlockStatement" &&
+    getDirectivePrologue(body.body as AnyNode[]).some(
+      (d) => d.value === SERVER_DIRECTIVE,
+    )
+  );
+}
+
+function findVariable(
+  scope: Scope.Scope | null,
+  name: string,
+): Scope.Variable | undefined {
+  for (let current = scope; current; current = current.upper) {
+    const variable = current.set.get(name);
+    if (variable) {
+      return variable;
+    }
+  }
+  return undefined;
+}
+
+/** Whether `name` refers to the global of that name, not a local binding. */
+function isGlobal(scope: Scope.Scope, name: string): boolean {
+  return !findVariable(scope, name)?.defs.length;
+}
+
+/**
+ * Checks the props that server components pass to client components. Props
+ * cross the network, so React must serialize them: functions (other than
+ * server actions), classes, class instances and symbols fail at runtime. A
+ * component is a client component when it is imported from a module whose
+ * prologue contains "use client".
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "disallow passing non-serializable props from server components to client components",
+      recommended: false,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-non-serializable-client-props",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          tsconfigPath: {
+            type: "string",
+            description:
+              "tsconfig.json used to resolve `paths` aliases; defaults to the closest one",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      nonSerializableProp:
+        "Prop `{{prop}}` of the client component `{{component}}` is {{what}}, which can't be passed from a server component.",
+    },
+  },
+
+  create(context) {
+    const [{ tsconfigPath } = {}] = context.options as Options;
+    const sourceCode = context.sourceCode;
+
+    const filename = context.filename;
+    if (!filename || filename.startsWith("<")) {
+      return {};
+    }
+
+    const directives = getDirectivePrologue(sourceCode.ast.body);
+    if (directives.some((d) => d.value === CLIENT_DIRECTIVE)) {
+      return {};
+    }
+
+    const imports = new Map<string, ImportBinding>();
+    const modules = new Map<string, ResolvedModule | undefined>();
+
+    function resolveModule(source: string): ResolvedModule | undefined {
+      if (!modules.has(source)) {
+        modules.set(
+          source,
+          resolveModuleDirectives(source, filename, { tsconfigPath }),
+        );
+      }
+      return modules.get(source);
+    }
+
+    /**
+     * Checks an imported value by the kind of its export. Async functions
+     * from "use server" modules are server actions and may be passed, and
+     * exports of "use client" modules cross the boundary as client
+     * references.
+     */
+    function checkImport(binding: ImportBinding): Problem | undefined {
+      const resolved = resolveModule(binding.source);
+      if (resolved?.directives.includes(CLIENT_DIRECTIVE)) {
+        return undefined;
+      }
+      const info = resolved && readModuleInfo(resolved.path, context);
+      const exported = info?.exports.find((e) => e.name === binding.name);
+      switch (exported?.kind) {
+        case "asyncFunction":
+          return resolved!.directives.includes(SERVER_DIRECTIVE)
+            ? undefined
+            : { what: "a function", path: [] };
+        case "function":
+          return { what: "a function", path: [] };
+        case "class":
+          return { what: "a class", path: [] };
+        default:
+          return undefined;
+      }
+    }
+
+    /** Returns the import a JSX element name refers to, if any. */
+    function componentImport(name: AnyNode): ImportBinding | undefined {
+      if (name.type === "JSXIdentifier") {
+        const local = name.name as string;
+        return /^[A-Z]/.test(local) ? imports.get(local) : undefined;
+      }
+      if (name.type === "JSXMemberExpression") {
+        const object = name.object as AnyNode;
+        const property = name.property as AnyNode;
+        const namespace =
+          object.type === "JSXIdentifier"
+            ? imports.get(object.name as string)
+            : undefined;
+        return namespace?.name === "*"
+          ? { source: namespace.source, name: property.name as string }
+          : undefined;
+      }
+      return undefined;
+    }
+
+    function checkFunction(fn: AnyNode): Problem | undefined {
+      return isInlineAction(fn) ? undefined : { what: "a function", path: [] };
+    }
+
+    /**
+     * Follows an identifier to its definition. Only definitions that can't
+     * change are followed: function and class declarations, imports and
+     * `const` declarations.
+     */
+    function checkIdentifier(
+      node: AnyNode,
+      scope: Scope.Scope,
+      seen: Set<Scope.Variable>,
+    ): Problem | undefined {
+      const variable = findVariable(scope, node.name as string);
+      const def = variable?.defs[0];
+      if (!def || variable.defs.length > 1 || seen.has(variable)) {
+        return undefined;
+      }
+      seen.add(variable);
+      switch (def.type) {
+        case "FunctionName":
+          return checkFunction(def.node as unknown as AnyNode);
+        case "ClassName":
+          return { what: "a class", path: [] };
+        case "ImportBinding": {
+          const binding = imports.get(node.name as string);
+          return binding && checkImport(binding);
+        }
+        case "Variable": {
+          const declarator = def.node as unknown as AnyNode;
+          const declaration = def.parent as unknown as AnyNode | null;
+          const init = declarator.init as AnyNode | null;
+          return declaration?.kind === "const" && init
+            ? checkValue(init, scope, seen)
+            : undefined;
+        }
+        default:
+          return undefined;
+      }
+    }
+
+    function checkValue(
+      node: AnyNode,
+      scope: Scope.Scope,
+      seen = new Set<Scope.Variable>(),
+    ): Problem | undefined {
+      const value = unwrap(node);
+      switch (value.type) {
+        case "ArrowFunctionExpression":
+        case "FunctionExpression":
+          return checkFunction(value);
+        case "ClassExpression":
+          return { what: "a class", path: [] };
+        case "NewExpression": {
+          const callee = unwrap(value.callee as AnyNode);
+          const name =
+            callee.type === "Identifier" ? (callee.name as string) : "";
+          if (SERIALIZABLE_CLASSES.has(name) && isGlobal(scope, name)) {
+            return undefined;
+          }
+          return { what: "a class instance", path: [] };
+        }
+        case "CallExpression": {
+          const callee = unwrap(value.callee as AnyNode);
+          return callee.type === "Identifier" &&
+            callee.name === "Symbol" &&
+            isGlobal(scope, "Symbol")
+            ? { what: "a symbol", path: [] }
+            : undefined;
+        }
+        case "Identifier":
+          return checkIdentifier(value, scope, seen);
+        case "ArrayExpression": {
+          const elements = value.elements as (AnyNode | null)[];
+          for (const [index, element] of elements.entries()) {
+            const found =
+              element &&
+              element.type !== "SpreadElement" &&
+              checkValue(element, scope, seen);
+            if (found) {
+              return { ...found, path: [String(index), ...found.path] };
+            }
+          }
+          return undefined;
+        }
+        case "ObjectExpression":
+          for (const property of value.properties as AnyNode[]) {
+            if (property.type !== "Property" || property.computed) {
+              continue;
+            }
+            const key = property.key as AnyNode;
+            const keyName =
+              key.type === "Identifier"
+                ? (key.name as string)
+                : String(key.value);
+            const found =
+              property.kind === "get" || property.kind === "set"
+                ? undefined
+                : checkValue(property.value as AnyNode, scope, seen);
+            if (found) {
+              return { ...found, path: [keyName, ...found.path] };
+            }
+          }
+          return undefined;
+        default:
+          return undefined;
+      }
+    }
+
+    return {
+      ImportDeclaration(node) {
+        if ((node as { importKind?: string }).importKind === "type") {
+          return;
+        }
+        const source = String(node.source.value);
+        for (const specifier of node.specifiers) {
+          if (specifier.type === "ImportDefaultSpecifier") {
+            imports.set(specifier.local.name, { source, name: "default" });
+          } else if (specifier.type === "ImportNamespaceSpecifier") {
+            imports.set(specifier.local.name, { source, name: "*" });
+          } else {
+            const imported = specifier.imported;
+            imports.set(specifier.local.name, {
+              source,
+              name:
+                imported.type === "Identifier"
+                  ? imported.name
+                  : String(imported.value),
+            });
+          }
+        }
+      },
+
+      JSXOpeningElement(node: Rule.Node) {
+        const element = node as unknown as AnyNode;
+        const name = element.name as AnyNode;
+        const binding = componentImport(name);
+        if (!binding) {
+          return;
+        }
+        const resolved = resolveModule(binding.source);
+        if (!resolved?.directives.includes(CLIENT_DIRECTIVE)) {
+          return;
+        }
+
+        const scope = sourceCode.getScope(node);
+        for (const attribute of element.attributes as AnyNode[]) {
+          let prop: string;
+          let found: Problem | undefined;
+          if (attribute.type === "JSXSpreadAttribute") {
+            const argument = unwrap(attribute.argument as AnyNode);
+            if (argument.type !== "ObjectExpression") {
+              continue;
+            }
+            found = checkValue(argument, scope);
+            prop = found?.path.shift() ?? "";
+          } else {
+            const value = attribute.value as AnyNode | null;
+            if (value?.type !== "JSXExpressionContainer") {
+              continue;
+            }
+            const attributeName = attribute.name as AnyNode;
+            prop =
+              attributeName.type === "JSXNamespacedName"
+                ? sourceCode.getText(attributeName as unknown as Rule.Node)
+                : (attributeName.name as string);
+            found = checkValue(value.expression as AnyNode, scope);
+          }
+          if (found) {
+            context.report({
+              node: attribute as unknown as Rule.Node,
+              messageId: "nonSerializableProp",
+              data: {
+                prop: [prop, ...found.path].join("."),
+                component: sourceCode.getText(name as unknown as Rule.Node),
+                what: found.what,
+              },
+            });
+          }
+        }
+      },
+    };
+  },
+};
+
+export default rule;
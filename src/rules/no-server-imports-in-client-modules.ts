@@ -0,0 +1,232 @@
+import type { Rule } from "eslint";
+import { resolveModuleDirectives } from "../utils/directive-resolver.js";
+import { getDirectivePrologue } from "../utils/directives.js";
+import { getFileSuffix } from "../utils/file-suffix.js";
+import { readModuleInfo } from "../utils/module-info.js";
+
+type Options = [
+  {
+    /**
+     * Modules that must never be imported from a "use client" file. Subpaths
+     * match too ("fs" covers "fs/promises"). `node:` builtins always match.
+     * Replaces the defaults when provided.
+     */
+    serverOnlyModules?: string[];
+    /**
+     * tsconfig.json used to resolve `paths` aliases. Defaults to the
+     * tsconfig.json closest to the linted file.
+     */
+    tsconfigPath?: string;
+    /**
+     * Follow the React Router / Remix filename conventions: `.client` files
+     * (and files in `.client` directories) are client modules too, and no
+     * client module may import a `.server` module. Default: false.
+     */
+    suffixes?: boolean;
+  }?,
+];
+
+const DEFAULT_SERVER_ONLY_MODULES = [
+  "server-only",
+  "next/headers",
+  "fs",
+  "child_process",
+  "net",
+  "tls",
+  "worker_threads",
+];
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+const SUFFIXES = ["server", "client"];
+
+interface ImportedName {
+  /** Name exported by the imported module ("default" for default imports). */
+  name: string;
+  node: Rule.Node;
+}
+
+/**
+ * Checks the imports of "use client" modules across file boundaries: server-only
+ * modules must not be imported at all, and "use server" modules may only be
+ * imported for their server actions (async function exports). With
+ * `suffixes`, `.client` files count as client modules and `.server` modules
+ * are off limits to them.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        'disallow importing server-only code into `"use client"` modules',
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-server-imports-in-client-modules",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          serverOnlyModules: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Modules that must not be imported from 'use client' files; replaces the defaults",
+          },
+          tsconfigPath: {
+            type: "string",
+            description:
+              "tsconfig.json used to resolve `paths` aliases; defaults to the closest one",
+          },
+          suffixes: {
+            type: "boolean",
+            description:
+              "Treat `.client` files as client modules and forbid importing `.server` modules from client modules",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      serverOnlyImport:
+        '"use client" modules cannot import the server-only module "{{source}}".',
+      serverModuleImport:
+        'Client modules cannot import "{{source}}": it is a `.server` module.',
+      nonActionImport:
+        '`{{name}}` is not a server action: "use client" modules can only import async functions from the "use server" module "{{source}}".',
+    },
+  },
+
+  create(context) {
+    const [
+      {
+        serverOnlyModules = DEFAULT_SERVER_ONLY_MODULES,
+        tsconfigPath,
+        suffixes = false,
+      } = {},
+    ] = context.options as Options;
+
+    const filename = context.filename;
+    if (!filename || filename.startsWith("<")) {
+      return {};
+    }
+
+    const directives = getDirectivePrologue(context.sourceCode.ast.body).map(
+      (d) => d.value,
+    );
+    const isClientFile =
+      directives.includes(CLIENT_DIRECTIVE) ||
+      (suffixes && getFileSuffix(filename, SUFFIXES) === "client");
+    if (!isClientFile) {
+      return {};
+    }
+
+    function isServerOnly(source: string): boolean {
+      return (
+        source.startsWith("node:") ||
+        serverOnlyModules.some(
+          (m) => source === m || source.startsWith(`${m}/`),
+        )
+      );
+    }
+
+    function check(
+      node: Rule.Node,
+      source: string,
+      importedNames: ImportedName[],
+    ) {
+      if (isServerOnly(source)) {
+        context.report({
+          node,
+          messageId: "serverOnlyImport",
+          data: { source },
+        });
+        return;
+      }
+
+      const resolved = resolveModuleDirectives(source, filename, {
+        tsconfigPath,
+      });
+      if (
+        suffixes &&
+        resolved &&
+        getFileSuffix(resolved.path, SUFFIXES) === "server"
+      ) {
+        context.report({
+          node,
+          messageId: "serverModuleImport",
+          data: { source },
+        });
+        return;
+      }
+
+      if (importedNames.length === 0) {
+        return;
+      }
+      // Only "use server" modules need a full parse for their exports.
+      const info =
+        resolved?.directives.includes(SERVER_DIRECTIVE) &&
+        readModuleInfo(resolved.path, context);
+      if (!info) {
+        return;
+      }
+      for (const imported of importedNames) {
+        const exported = info.exports.find((e) => e.name === imported.name);
+        if (
+          exported &&
+          exported.kind !== "asyncFunction" &&
+          exported.kind !== "type" &&
+          exported.kind !== "unknown"
+        ) {
+          context.report({
+            node: imported.node,
+            messageId: "nonActionImport",
+            data: { name: imported.name, source },
+          });
+        }
+      }
+    }
+
+    return {
+      ImportDeclaration(node) {
+        if ((node as { importKind?: string }).importKind === "type") {
+          return;
+        }
+        const importedNames: ImportedName[] = [];
+        for (const specifier of node.specifiers) {
+          if ((specifier as { importKind?: string }).importKind === "type") {
+            continue;
+          }
+          if (specifier.type === "ImportDefaultSpecifier") {
+            importedNames.push({
+              name: "default",
+              node: specifier as Rule.Node,
+            });
+          } else if (specifier.type === "ImportSpecifier") {
+            const imported = specifier.imported;
+            importedNames.push({
+              name:
+                imported.type === "Identifier"
+                  ? imported.name
+                  : String(imported.value),
+              node: specifier as Rule.Node,
+            });
+          }
+          // Namespace imports expose the module's server actions as-is.
+        }
+        check(node, String(node.source.value), importedNames);
+      },
+      ImportExpression(node) {
+        if (
+          node.source.type === "Literal" &&
+          typeof node.source.value === "string"
+        ) {
+          check(node, node.source.value, []);
+        }
+      },
+    };
+  },
+};
+
+export default rule;
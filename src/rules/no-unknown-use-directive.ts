@@ -0,0 +1,97 @@
+import type { Rule } from "eslint";
+import { getDirectivePrologue, replaceDirective } from "../utils/directives.js";
+import {
+  closestDirectives,
+  KNOWN_DIRECTIVES,
+  looksLikeUseDirective,
+} from "../utils/known-directives.js";
+
+type Options = [
+  {
+    /**
+     * Extra directives to accept on top of the built-in registry, e.g. for
+     * frameworks this plugin doesn't know about.
+     */
+    additionalDirectives?: string[];
+  }?,
+];
+
+/** How many replacement suggestions to offer at most. */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Reports `use ...` strings in the directive prologue that no framework
+ * recognizes, such as "use clinet", "use-client" or "Use client", and
+ * suggests the closest known directive.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description: "disallow unknown (likely misspelled) `use ...` directives",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-unknown-use-directive",
+    },
+    hasSuggestions: true,
+    schema: [
+      {
+        type: "object",
+        properties: {
+          additionalDirectives: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Directives to accept in addition to the built-in list of known directives",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      unknownDirective:
+        'Unknown directive "{{directive}}". Frameworks silently ignore directives they don\'t recognize.',
+      replaceDirective: 'Replace with "{{suggestion}}".',
+    },
+  },
+
+  create(context) {
+    const [{ additionalDirectives = [] } = {}] = context.options as Options;
+    const known = [...KNOWN_DIRECTIVES, ...additionalDirectives];
+    const knownSet = new Set(known);
+    const sourceCode = context.sourceCode;
+
+    return {
+      Program(node) {
+        for (const directive of getDirectivePrologue(node.body ?? [])) {
+          if (knownSet.has(directive.value)) {
+            continue;
+          }
+          const suggestions = closestDirectives(directive.value, known);
+          if (
+            !looksLikeUseDirective(directive.value) &&
+            suggestions.length === 0
+          ) {
+            continue;
+          }
+          context.report({
+            node: directive.node,
+            messageId: "unknownDirective",
+            data: { directive: directive.value },
+            suggest: suggestions
+              .slice(0, MAX_SUGGESTIONS)
+              .map((suggestion) => ({
+                messageId: "replaceDirective",
+                data: { suggestion },
+                fix: (fixer: Rule.RuleFixer) =>
+                  replaceDirective(fixer, sourceCode, directive, suggestion),
+              })),
+          });
+        }
+      },
+    };
+  },
+};
+
+export default rule;
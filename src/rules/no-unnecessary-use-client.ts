@@ -0,0 +1,169 @@
+import type { Rule } from "eslint";
+import { createClientFeatureCollector } from "../utils/client-features.js";
+import {
+  getDirectivePrologue,
+  removeStatement,
+  replaceDirective,
+} from "../utils/directives.js";
+
+type Options = [
+  {
+    /**
+     * What the suggestion does with the unnecessary directive: switch it to
+     * "use server" or remove it. Default: "remove".
+     */
+    prefer?: "use server" | "remove";
+    /**
+     * Modules whose import makes a file client-only. Subpaths match too.
+     * Replaces the defaults when provided.
+     */
+    clientOnlyModules?: string[];
+  }?,
+];
+
+const DEFAULT_CLIENT_ONLY_MODULES = ["client-only"];
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+/**
+ * Reports "use client" directives in files that use no client-only APIs: no
+ * hooks, event handlers, class components, browser globals, `createContext`
+ * calls or client-only imports. Such files could render on the server instead. Files re-exporting
+ * from other modules are left alone, since they are often client boundaries
+ * for third-party components.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        'disallow `"use client"` in files that use no client-only features',
+      recommended: false,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesno-unnecessary-use-client",
+    },
+    hasSuggestions: true,
+    schema: [
+      {
+        type: "object",
+        properties: {
+          prefer: {
+            enum: ["use server", "remove"],
+            description:
+              "Whether the suggestion switches the directive to 'use server' or removes it",
+          },
+          clientOnlyModules: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Modules whose import makes a file client-only; replaces the defaults",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      unnecessaryUseClient:
+        'This "use client" module uses no hooks, event handlers, browser globals, contexts or client-only imports and re-exports nothing, so it could render on the server.',
+      switchToUseServer: 'Replace "use client" with "use server".',
+      removeUseClient: 'Remove the "use client" directive.',
+    },
+  },
+
+  create(context) {
+    const [
+      {
+        prefer = "remove",
+        clientOnlyModules = DEFAULT_CLIENT_ONLY_MODULES,
+      } = {},
+    ] = context.options as Options;
+
+    const sourceCode = context.sourceCode;
+    const useClient = getDirectivePrologue(sourceCode.ast.body).find(
+      (d) => d.value === CLIENT_DIRECTIVE,
+    );
+    if (!useClient) {
+      return {};
+    }
+
+    const clientFeatures = createClientFeatureCollector(context);
+    let importsClientOnlyModule = false;
+    let createsContext = false;
+    let reExports = false;
+
+    function checkReExport(node: { source?: unknown; exportKind?: string }) {
+      if (node.source && node.exportKind !== "type") {
+        reExports = true;
+      }
+    }
+
+    function checkSource(source: unknown) {
+      if (
+        typeof source === "string" &&
+        clientOnlyModules.some(
+          (m) => source === m || source.startsWith(`${m}/`),
+        )
+      ) {
+        importsClientOnlyModule = true;
+      }
+    }
+
+    return {
+      ...clientFeatures.visitors,
+      ImportDeclaration(node) {
+        if ((node as { importKind?: string }).importKind !== "type") {
+          checkSource(node.source.value);
+        }
+      },
+      ImportExpression(node) {
+        if (node.source.type === "Literal") {
+          checkSource(node.source.value);
+        }
+      },
+      // createContext(...) and React.createContext(...)
+      "CallExpression[callee.name='createContext'], CallExpression[callee.property.name='createContext']"() {
+        createsContext = true;
+      },
+      ExportAllDeclaration: checkReExport,
+      ExportNamedDeclaration: checkReExport,
+      "Program:exit"() {
+        if (
+          importsClientOnlyModule ||
+          createsContext ||
+          reExports ||
+          clientFeatures.getFeatures().length
+        ) {
+          return;
+        }
+        context.report({
+          node: useClient.node,
+          messageId: "unnecessaryUseClient",
+          suggest: [
+            prefer === "remove"
+              ? {
+                  messageId: "removeUseClient",
+                  fix(fixer) {
+                    return removeStatement(fixer, sourceCode, useClient.node);
+                  },
+                }
+              : {
+                  messageId: "switchToUseServer",
+                  fix(fixer) {
+                    return replaceDirective(
+                      fixer,
+                      sourceCode,
+                      useClient,
+                      SERVER_DIRECTIVE,
+                    );
+                  },
+                },
+          ],
+        });
+      },
+    };
+  },
+};
+
+export default rule;
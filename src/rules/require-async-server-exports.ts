@@ -0,0 +1,146 @@
+import type { Rule, Scope } from "eslint";
+import { getDirectivePrologue } from "../utils/directives.js";
+import { collectModuleExports, type ModuleExport } from "../utils/exports.js";
+import { isCacheDirective } from "../utils/known-directives.js";
+
+const SERVER_DIRECTIVE = "use server";
+
+const EXPORT_PARENTS = new Set(["ExportSpecifier", "ExportDefaultDeclaration"]);
+
+/** Expressions that wrap a function without changing it at runtime. */
+const EXPRESSION_WRAPPERS = new Set([
+  "TSAsExpression",
+  "TSSatisfiesExpression",
+  "TSNonNullExpression",
+  "TSTypeAssertion",
+  "ParenthesizedExpression",
+]);
+
+function describeExport(entry: ModuleExport): string {
+  switch (entry.kind) {
+    case "function":
+      return (entry.fn as { generator?: boolean } | undefined)?.generator
+        ? "a generator function"
+        : "a synchronous function";
+    case "class":
+      return "a class";
+    default:
+      return "not a function";
+  }
+}
+
+/**
+ * Ensures a "use server" module only exports async functions, which is what
+ * Next.js accepts as server actions. Files marked "use cache" follow the same
+ * rule, since every export of such a file is cached as an async function.
+ * Synchronous functions get an autofix that adds `async` when nothing else in
+ * the file depends on their return value.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        'enforce that `"use server"` modules only export async functions',
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesrequire-async-server-exports",
+    },
+    fixable: "code",
+    schema: [],
+    messages: {
+      nonAsyncExport:
+        'Only async functions can be exported from a "use server" file, but `{{name}}` is {{what}}.',
+      exportAll:
+        '`export * from "{{source}}"` can re-export values that are not async functions from a "use server" file.',
+      nonAsyncCacheExport:
+        'Every export of a "{{directive}}" file is cached as an async function, but `{{name}}` is {{what}}.',
+      cacheExportAll:
+        '`export * from "{{source}}"` can re-export values that are not async functions from a "{{directive}}" file.',
+    },
+  },
+
+  create(context) {
+    const sourceCode = context.sourceCode;
+
+    /**
+     * Adding `async` changes the return value into a promise, so only do it
+     * when the function is not called or read anywhere else in the file and
+     * has no return type annotation that would stop compiling.
+     */
+    function canAddAsync(entry: ModuleExport): boolean {
+      const fn = entry.fn as
+        (Rule.Node & { generator?: boolean; returnType?: unknown }) | undefined;
+      if (!fn || fn.generator || fn.returnType) {
+        return false;
+      }
+      let owner = fn.type === "FunctionDeclaration" ? fn : fn.parent;
+      // export const a = (() => 1) as unknown as F;
+      while (EXPRESSION_WRAPPERS.has(owner.type)) {
+        owner = owner.parent;
+      }
+      const variables: Scope.Variable[] =
+        owner.type === "FunctionDeclaration" ||
+        owner.type === "VariableDeclarator"
+          ? sourceCode.getDeclaredVariables(owner)
+          : [];
+      return variables.every((variable) =>
+        variable.references.every(
+          (ref) =>
+            ref.init ||
+            EXPORT_PARENTS.has((ref.identifier as Rule.Node).parent.type),
+        ),
+      );
+    }
+
+    function addAsync(fixer: Rule.RuleFixer, fn: Rule.Node): Rule.Fix {
+      const firstToken = sourceCode.getFirstToken(fn)!;
+      return fixer.insertTextBefore(firstToken, "async ");
+    }
+
+    return {
+      Program(node) {
+        const directives = getDirectivePrologue(node.body ?? []);
+        const isServer = directives.some((d) => d.value === SERVER_DIRECTIVE);
+        const cacheDirective =
+          directives.find((d) => isCacheDirective(d.value))?.value ?? "";
+        if (!isServer && !cacheDirective) {
+          return;
+        }
+
+        for (const entry of collectModuleExports(sourceCode.ast)) {
+          if (entry.node.type === "ExportAllDeclaration") {
+            context.report({
+              node: entry.node,
+              messageId: isServer ? "exportAll" : "cacheExportAll",
+              data: { source: entry.source ?? "", directive: cacheDirective },
+            });
+            continue;
+          }
+          if (
+            entry.kind === "asyncFunction" ||
+            entry.kind === "type" ||
+            entry.kind === "unknown"
+          ) {
+            continue;
+          }
+          const fn = entry.fn;
+          context.report({
+            node: entry.node,
+            messageId: isServer ? "nonAsyncExport" : "nonAsyncCacheExport",
+            data: {
+              name: entry.name,
+              what: describeExport(entry),
+              directive: cacheDirective,
+            },
+            fix:
+              entry.kind === "function" && fn && canAddAsync(entry)
+                ? (fixer) => addAsync(fixer, fn)
+                : null,
+          });
+        }
+      },
+    };
+  },
+};
+
+export default rule;
@@ -0,0 +1,150 @@
+import type { Rule } from "eslint";
+import type * as ts from "typescript";
+import { getDirectivePrologue } from "../utils/directives.js";
+import { collectModuleExports } from "../utils/exports.js";
+import {
+  createSerializationChecker,
+  loadTypeScript,
+} from "../utils/serialization.js";
+
+type Options = [
+  {
+    /** Whether `Date` values may be passed or returned. Default: true. */
+    allowDate?: boolean;
+    /** Whether `Map` and `Set` values may be passed or returned. Default: true. */
+    allowMapAndSet?: boolean;
+  }?,
+];
+
+const SERVER_DIRECTIVE = "use server";
+
+/** The parts of typescript-eslint's parser services this rule needs. */
+interface ParserServices {
+  program?: ts.Program | null;
+  esTreeNodeToTSNodeMap?: { get(node: unknown): ts.Node | undefined };
+}
+
+type FunctionNode = Rule.Node & {
+  params: Rule.Node[];
+  returnType?: Rule.Node;
+};
+
+/**
+ * Uses type information to check the signatures of server actions exported
+ * from "use server" files: React has to serialize every argument and return
+ * value, so functions, class instances and symbols (and, by policy, `Date`,
+ * `Map` and `Set`) fail at runtime. Does nothing without typescript-eslint
+ * type information.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "require server action parameters and return values to be serializable",
+      recommended: false,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesrequire-serializable-server-actions",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allowDate: {
+            type: "boolean",
+            description: "Whether `Date` values may be passed or returned",
+          },
+          allowMapAndSet: {
+            type: "boolean",
+            description:
+              "Whether `Map` and `Set` values may be passed or returned",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      nonSerializableParam:
+        "Parameter `{{param}}` of server action `{{name}}` has type `{{type}}`, which React can't serialize: {{reason}}.",
+      nonSerializableReturn:
+        "Server action `{{name}}` resolves to `{{type}}`, which React can't serialize: {{reason}}.",
+    },
+  },
+
+  create(context) {
+    const [{ allowDate = true, allowMapAndSet = true } = {}] =
+      context.options as Options;
+    const sourceCode = context.sourceCode;
+
+    const directives = getDirectivePrologue(sourceCode.ast.body);
+    if (!directives.some((d) => d.value === SERVER_DIRECTIVE)) {
+      return {};
+    }
+
+    const services = sourceCode.parserServices as ParserServices | undefined;
+    const program = services?.program;
+    const nodeMap = services?.esTreeNodeToTSNodeMap;
+    const tsModule = loadTypeScript();
+    if (!program || !nodeMap || !tsModule) {
+      return {};
+    }
+
+    const checker = program.getTypeChecker();
+    const findProblem = createSerializationChecker(tsModule, checker, {
+      allowDate,
+      allowMapAndSet,
+    });
+
+    return {
+      "Program:exit"() {
+        for (const entry of collectModuleExports(sourceCode.ast)) {
+          const fn = entry.fn as FunctionNode | undefined;
+          const tsNode = fn && nodeMap.get(fn);
+          if (!fn || !tsNode) {
+            continue;
+          }
+          const [signature] = checker
+            .getTypeAtLocation(tsNode)
+            .getCallSignatures();
+          if (!signature) {
+            continue;
+          }
+
+          signature.getParameters().forEach((parameter, index) => {
+            const type = checker.getTypeOfSymbolAtLocation(parameter, tsNode);
+            const reason = findProblem(type);
+            if (reason) {
+              context.report({
+                node: fn.params[index] ?? fn,
+                messageId: "nonSerializableParam",
+                data: {
+                  param: parameter.getName(),
+                  name: entry.name,
+                  type: checker.typeToString(type),
+                  reason,
+                },
+              });
+            }
+          });
+
+          const returned = checker.getReturnTypeOfSignature(signature);
+          const resolved = checker.getAwaitedType(returned) ?? returned;
+          const reason = findProblem(resolved);
+          if (reason) {
+            context.report({
+              node: fn.returnType ?? fn,
+              messageId: "nonSerializableReturn",
+              data: {
+                name: entry.name,
+                type: checker.typeToString(resolved),
+                reason,
+              },
+            });
+          }
+        }
+      },
+    };
+  },
+};
+
+export default rule;
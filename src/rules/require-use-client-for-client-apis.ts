@@ -0,0 +1,80 @@
+import type { Rule } from "eslint";
+import {
+  createClientFeatureCollector,
+  describeClientFeature,
+} from "../utils/client-features.js";
+import {
+  getDirectivePrologue,
+  insertDirective,
+  replaceDirective,
+} from "../utils/directives.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+/**
+ * Reports client-only APIs (React hooks, JSX event handlers, class components
+ * and browser globals) in files whose directive prologue lacks "use client".
+ * Each report suggests switching the prologue to "use client".
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        'require `"use client"` in files that use client-only React or browser APIs',
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesrequire-use-client-for-client-apis",
+    },
+    hasSuggestions: true,
+    schema: [],
+    messages: {
+      missingUseClient:
+        'This file {{feature}}, which only works in a "use client" module.',
+      switchToUseClient: 'Switch the directive prologue to "use client".',
+    },
+  },
+
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const clientFeatures = createClientFeatureCollector(context);
+
+    return {
+      ...clientFeatures.visitors,
+      "Program:exit"(node) {
+        const directives = getDirectivePrologue(node.body ?? []);
+        if (directives.some((d) => d.value === CLIENT_DIRECTIVE)) {
+          return;
+        }
+        const serverDirective = directives.find(
+          (d) => d.value === SERVER_DIRECTIVE,
+        );
+
+        for (const feature of clientFeatures.getFeatures()) {
+          context.report({
+            node: feature.node,
+            messageId: "missingUseClient",
+            data: { feature: describeClientFeature(feature) },
+            suggest: [
+              {
+                messageId: "switchToUseClient",
+                fix(fixer) {
+                  return serverDirective
+                    ? replaceDirective(
+                        fixer,
+                        sourceCode,
+                        serverDirective,
+                        CLIENT_DIRECTIVE,
+                      )
+                    : insertDirective(fixer, sourceCode, CLIENT_DIRECTIVE);
+                },
+              },
+            ],
+          });
+        }
+      },
+    };
+  },
+};
+
+export default rule;
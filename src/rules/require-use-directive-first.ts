@@ -1,5 +1,28 @@
 import type { Rule } from "eslint";
-import * as path from "path";
+import { createClientFeatureCollector } from "../utils/client-features.js";
+import {
+  DIRECTIVE_STYLE_SCHEMA_PROPERTIES,
+  type QuoteStyle,
+} from "../utils/directive-style.js";
+import {
+  type DirectivePosition,
+  getDirectivePrologue,
+  insertDirective,
+  type PrologueDirective,
+  replaceDirective,
+} from "../utils/directives.js";
+import {
+  getExtension,
+  hasSelectedExtension,
+  isPathSelected,
+} from "../utils/file-filter.js";
+import {
+  DEFAULT_SUFFIX_DIRECTIVES,
+  getFileSuffix,
+} from "../utils/file-suffix.js";
+import { matchGlobs } from "../utils/glob.js";
+import { inferUseDirective } from "../utils/infer-directive.js";
+import { isCacheDirective } from "../utils/known-directives.js";
 
 type Options = [
   {
@@ -9,11 +32,17 @@ type Options = [
      */
     directive: string;
     /**
-     * Glob-like ignore patterns. If a file path matches, the rule does nothing.
-     * Matched against the full normalized POSIX path. For "match anywhere",
-     * prefix your pattern with two asterisks followed by a slash. Supports **, *, ?.
+     * Glob patterns of files the rule skips. Patterns are relative to the
+     * working directory unless absolute; a leading two asterisks and a slash
+     * matches anywhere. Supports **, *, ?, [classes], {braces} and `!`
+     * negation (the last matching pattern wins).
      */
     ignore?: string[];
+    /**
+     * Glob patterns of the only files to check, with the same syntax as
+     * `ignore`. `ignore` still applies to included files. Default: all files.
+     */
+    include?: string[];
     /**
      * Directives that should be ignored when determining if a directive already exists.
      * Example: ["use strict"]. If present, they won't satisfy the rule.
@@ -36,66 +65,120 @@ type Options = [
      * Include files in node_modules. Defaults to false (node_modules ignored).
      */
     includeNodeModules?: boolean;
+    /**
+     * Infer "use client" or "use server" from the file contents and insert
+     * that instead of `directive`. Falls back to `directive` when the file
+     * gives no clear evidence. Default: false.
+     */
+    infer?: boolean;
+    /**
+     * Quotes for the inserted directive. Use the same value as the
+     * `use-directive-style` rule. Default: "double".
+     */
+    quotes?: QuoteStyle;
+    /**
+     * Whether the inserted directive ends with a semicolon. Use the same value
+     * as the `use-directive-style` rule. Default: true.
+     */
+    semi?: boolean;
+    /**
+     * Where the inserted directive goes: "afterHeaderComments" keeps leading
+     * comments (license banners, `// @ts-nocheck`) above it, "top" puts it on
+     * the first line (after a shebang). Default: "afterHeaderComments".
+     */
+    position?: DirectivePosition;
+    /**
+     * Per-path directives. The first override whose `files` pattern matches
+     * the file decides: the file must contain exactly that directive, or, with
+     * `directive: null`, is not checked at all. Files matching no override use
+     * the options above. Patterns work like `ignore`.
+     */
+    overrides?: Override[];
+    /**
+     * How a missing directive gets fixed. "autofix" inserts it on
+     * `eslint --fix`, "suggest" only offers editor suggestions so a human
+     * picks the directive, "none" offers neither. Default: "autofix".
+     */
+    fixMode?: FixMode;
+    /**
+     * Derive the directive from the React Router / Remix filename
+     * conventions: `.server` files (and files in `.server` directories) must
+     * be "use server", `.client` files "use client". An object maps suffixes
+     * to directives instead. Suffixed files are checked whatever their
+     * extension, and a directive belonging to another suffix is reported as a
+     * mismatch. Overrides still win. Default: false.
+     */
+    suffixes?: boolean | Record<string, string>;
   },
 ];
 
+type FixMode = "autofix" | "suggest" | "none";
+
+interface Override {
+  files: string | string[];
+  directive: string | null;
+}
+
 const DEFAULTS = {
   ignore: [] as string[],
+  include: [] as string[],
   ignoredDirectives: [] as string[],
   requireExact: false,
   requireOneOf: [] as string[],
   extensions: [] as string[],
   includeNodeModules: false,
+  infer: false,
+  quotes: "double" as QuoteStyle,
+  semi: true,
+  position: "afterHeaderComments" as DirectivePosition,
+  overrides: [] as Override[],
+  fixMode: "autofix" as FixMode,
+  suffixes: false as boolean | Record<string, string>,
 };
 
-const BASE_EXTENSIONS = ["jsx", "tsx"] as const;
+/** Extensions of modules that the `suffixes` conventions apply to. */
+const SCRIPT_EXTENSIONS = new Set([
+  "js",
+  "jsx",
+  "ts",
+  "tsx",
+  "mjs",
+  "cjs",
+  "mts",
+  "cts",
+]);
 
-function globToRegExp(glob: string): RegExp {
-  const g = glob.split(path.sep).join("/");
-  let out = "^";
-  for (let i = 0; i < g.length; i++) {
-    const ch = g[i]!;
-    if (ch === "*") {
-      if (g[i + 1] === "*") {
-        while (g[i + 1] === "*") {
-          i++;
-        }
-        if (g[i + 1] === "/") {
-          i++;
-        }
-        out += ".*";
-      } else {
-        out += "[^/]*";
-      }
-    } else if (ch === "?") {
-      out += "[^/]";
-    } else {
-      if ("+.^$|()[]{}".includes(ch)) {
-        out += "\\" + ch;
-      } else {
-        out += ch;
-      }
-    }
-  }
-  out += "$";
-  return new RegExp(out);
-}
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+/** Directives deciding where a module runs; a file can't have both. */
+const MODULE_DIRECTIVES = [CLIENT_DIRECTIVE, SERVER_DIRECTIVE];
 
-function compilePatterns(patterns: string[]): RegExp[] {
-  return patterns.map(globToRegExp);
-}
-
-function pathMatchesAny(filePath: string, regs: RegExp[]): boolean {
-  if (!regs.length) {
-    return false;
+/**
+ * Returns the first override matching the file together with the pattern that
+ * matched, so reports can point at the responsible config entry.
+ */
+function findOverride(
+  filePath: string,
+  overrides: Override[],
+  cwd: string,
+): { override: Override; pattern: string } | undefined {
+  for (const override of overrides) {
+    const patterns = Array.isArray(override.files)
+      ? override.files
+      : [override.files];
+    const pattern = matchGlobs(filePath, patterns, cwd);
+    if (pattern !== undefined) {
+      return { override, pattern };
+    }
   }
-  const posix = filePath.split(path.sep).join("/");
-  return regs.some((re) => re.test(posix));
+  return undefined;
 }
 
 /**
  * Ensures there is a top-of-file "use ..." directive. If none is present (after
- * applying ignore rules), inserts a configurable default (double-quoted).
+ * applying ignore rules), inserts a configurable default (styled with `quotes`
+ * and `semi`), or with `infer` the directive that matches the file contents.
+ * `overrides` map path patterns to the directive those files must contain.
  */
 const rule: Rule.RuleModule = {
   meta: {
@@ -106,6 +189,7 @@ const rule: Rule.RuleModule = {
       url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesrequire-use-directive-first",
     },
     fixable: "code",
+    hasSuggestions: true,
     schema: [
       {
         type: "object",
@@ -120,7 +204,14 @@ const rule: Rule.RuleModule = {
             items: { type: "string" },
             uniqueItems: true,
             description:
-              "Glob-like ignore patterns matched against the full normalized POSIX path; use **/ to match anywhere",
+              "Glob patterns of files to skip, relative to the working directory; `!` re-includes files",
+          },
+          include: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Glob patterns of the only files to check, relative to the working directory; `!` excludes files again",
           },
           ignoredDirectives: {
             type: "array",
@@ -151,6 +242,57 @@ const rule: Rule.RuleModule = {
             description:
               "Include files in node_modules. Defaults to false (node_modules ignored)",
           },
+          infer: {
+            type: "boolean",
+            description:
+              "Infer 'use client' or 'use server' from the file contents, falling back to `directive`",
+          },
+          ...DIRECTIVE_STYLE_SCHEMA_PROPERTIES,
+          position: {
+            enum: ["top", "afterHeaderComments"],
+            description:
+              "Whether the inserted directive goes on the first line or after the leading comments",
+          },
+          overrides: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                files: {
+                  anyOf: [
+                    { type: "string" },
+                    { type: "array", items: { type: "string" }, minItems: 1 },
+                  ],
+                },
+                directive: { type: ["string", "null"] },
+              },
+              required: ["files", "directive"],
+              additionalProperties: false,
+            },
+            description:
+              "Per-path directives; the first override whose `files` match decides, `directive: null` skips the file",
+          },
+          fixMode: {
+            enum: ["autofix", "suggest", "none"],
+            description:
+              "Whether a missing directive is autofixed, only offered as editor suggestions, or neither",
+          },
+          suffixes: {
+            description:
+              "Derive the directive from `.server`/`.client` filename suffixes, or map suffixes to directives",
+            anyOf: [
+              {
+                type: "boolean",
+                description:
+                  'Whether `.server` files require "use server" and `.client` files "use client"',
+              },
+              {
+                type: "object",
+                additionalProperties: { type: "string" },
+                description: "Suffixes (without dots) and their directives",
+              },
+            ],
+          },
         },
         additionalProperties: false,
       },
@@ -159,6 +301,22 @@ const rule: Rule.RuleModule = {
     messages: {
       addDirective:
         'Insert a top-of-file `use` directive (e.g., "{{directive}}").',
+      addInferredDirective:
+        'Insert a top-of-file `use` directive ("{{directive}}"): the file {{reason}}.',
+      addFallbackDirective:
+        'Insert a top-of-file `use` directive ("{{directive}}"): no client-only APIs or server-only exports found, using the configured default.',
+      addOverrideDirective:
+        'Insert a top-of-file `use` directive ("{{directive}}"): files matching the override "{{pattern}}" require it.',
+      addSuffixDirective:
+        'Insert a top-of-file `use` directive ("{{directive}}"): ".{{suffix}}" files require it.',
+      clientWithCache:
+        'Insert a top-of-file `use` directive: "{{directive}}" can\'t be combined with "{{cache}}", which only works in server code.',
+      overrideMismatch:
+        '"{{found}}" contradicts the override "{{pattern}}", which requires "{{directive}}".',
+      suffixMismatch:
+        '"{{found}}" contradicts the ".{{suffix}}" filename, which requires "{{directive}}".',
+      insertDirective: 'Insert "{{directive}}".',
+      replaceDirective: 'Replace "{{found}}" with "{{directive}}".',
     },
   },
 
@@ -167,11 +325,19 @@ const rule: Rule.RuleModule = {
       {
         directive,
         ignore = DEFAULTS.ignore,
+        include = DEFAULTS.include,
         ignoredDirectives = DEFAULTS.ignoredDirectives,
         requireExact = DEFAULTS.requireExact,
         requireOneOf = DEFAULTS.requireOneOf,
         extensions = DEFAULTS.extensions,
         includeNodeModules = DEFAULTS.includeNodeModules,
+        infer = DEFAULTS.infer,
+        quotes = DEFAULTS.quotes,
+        semi = DEFAULTS.semi,
+        position = DEFAULTS.position,
+        overrides = DEFAULTS.overrides,
+        fixMode = DEFAULTS.fixMode,
+        suffixes = DEFAULTS.suffixes,
       } = {},
     ] = context.options as Options;
 
@@ -181,41 +347,182 @@ const rule: Rule.RuleModule = {
 
     const filename = context.filename;
 
+    const suffixDirectives =
+      suffixes === true
+        ? DEFAULT_SUFFIX_DIRECTIVES
+        : suffixes === false
+          ? {}
+          : suffixes;
+
+    let matchedOverride: { directive: string; pattern: string } | undefined;
+    let matchedSuffix: { directive: string; suffix: string } | undefined;
     const filenameUsable = Boolean(filename) && !filename.startsWith("<");
     if (filenameUsable) {
-      const effectiveIgnorePatterns = includeNodeModules
-        ? ignore
-        : [...ignore, "**/node_modules/**"];
-      const ignoreRegs = compilePatterns(effectiveIgnorePatterns);
-      if (pathMatchesAny(filename, ignoreRegs)) {
+      if (
+        !isPathSelected(
+          filename,
+          { ignore, include, includeNodeModules },
+          context.cwd,
+        )
+      ) {
         return {};
       }
 
-      const ext = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
-      const effectiveExtensions =
-        Array.isArray(extensions) && extensions.length > 0
-          ? new Set<string>(extensions.map((e) => e.toLowerCase()))
-          : new Set<string>(BASE_EXTENSIONS);
-      if (!effectiveExtensions.has(ext)) {
+      const ext = getExtension(filename);
+      const suffix = SCRIPT_EXTENSIONS.has(ext)
+        ? getFileSuffix(filename, Object.keys(suffixDirectives))
+        : undefined;
+      if (!hasSelectedExtension(filename, extensions) && !suffix) {
         return {};
       }
+
+      const match = findOverride(filename, overrides, context.cwd);
+      if (match) {
+        if (match.override.directive === null) {
+          return {};
+        }
+        matchedOverride = {
+          directive: match.override.directive,
+          pattern: match.pattern,
+        };
+      } else if (suffix) {
+        matchedSuffix = { directive: suffixDirectives[suffix]!, suffix };
+      }
     }
 
     const sourceCode = context.sourceCode;
+    const clientFeatures =
+      infer && !matchedOverride && !matchedSuffix
+        ? createClientFeatureCollector(context)
+        : null;
+
+    /** Picks the directive to insert, or `fallback` without clear evidence. */
+    function inferDirective(fallback: string): {
+      directive: string;
+      reason?: string;
+    } {
+      const accepts = (candidate: string) =>
+        Array.isArray(requireOneOf) && requireOneOf.length > 0
+          ? requireOneOf.includes(candidate)
+          : !requireExact || candidate === fallback;
+      return (
+        inferUseDirective(
+          sourceCode.ast,
+          clientFeatures?.getFeatures() ?? [],
+          accepts,
+        ) ?? { directive: fallback }
+      );
+    }
+
+    /**
+     * Reports the missing directive. `directive` is the autofix; suggestions
+     * offer it first, followed by the other directives in `candidates`. A
+     * null `directive` leaves only the suggestions.
+     */
+    function reportMissing(
+      messageId: string,
+      data: Record<string, string>,
+      directive: string | null,
+      candidates: readonly string[],
+    ) {
+      const insert = (value: string) => (fixer: Rule.RuleFixer) =>
+        insertDirective(fixer, sourceCode, value, { quotes, semi, position });
+      const suggestions = directive
+        ? [directive, ...candidates.filter((c) => c !== directive)]
+        : candidates;
+      context.report({
+        node: sourceCode.ast,
+        messageId,
+        data,
+        fix: fixMode === "autofix" && directive ? insert(directive) : null,
+        suggest:
+          fixMode === "none"
+            ? []
+            : suggestions.map((value) => ({
+                messageId: "insertDirective",
+                data: { directive: value },
+                fix: insert(value),
+              })),
+      });
+    }
+
+    /**
+     * Reports a directive that contradicts the required one. Swapping it
+     * changes where the module runs, so the replacement is only suggested.
+     */
+    function reportConflict(
+      conflicting: PrologueDirective,
+      messageId: string,
+      data: { found: string; directive: string } & Record<string, string>,
+    ) {
+      context.report({
+        node: conflicting.node,
+        messageId,
+        data,
+        suggest: [
+          {
+            messageId: "replaceDirective",
+            data,
+            fix: (fixer) =>
+              replaceDirective(fixer, sourceCode, conflicting, data.directive),
+          },
+        ],
+      });
+    }
 
     return {
-      Program(node) {
-        // gather directive prologue
-        const body = node.body ?? [];
-        const directives: string[] = [];
-        for (const stmt of body) {
-          const dir: string | undefined = (stmt as { directive?: string })
-            .directive;
-          if (dir) {
-            directives.push(dir);
-          } else {
-            break;
+      ...clientFeatures?.visitors,
+      "Program:exit"(node) {
+        const prologue = getDirectivePrologue(node.body ?? []);
+        const directives = prologue.map((d) => d.value);
+
+        if (matchedOverride) {
+          const required = matchedOverride;
+          const conflicting = MODULE_DIRECTIVES.includes(required.directive)
+            ? prologue.find(
+                (d) =>
+                  d.value !== required.directive &&
+                  MODULE_DIRECTIVES.includes(d.value),
+              )
+            : undefined;
+          if (conflicting) {
+            reportConflict(conflicting, "overrideMismatch", {
+              found: conflicting.value,
+              directive: required.directive,
+              pattern: required.pattern,
+            });
+          } else if (!directives.includes(required.directive)) {
+            reportMissing(
+              "addOverrideDirective",
+              { directive: required.directive, pattern: required.pattern },
+              required.directive,
+              [],
+            );
           }
+          return;
+        }
+
+        if (matchedSuffix) {
+          const { directive: required, suffix } = matchedSuffix;
+          const others = Object.values(suffixDirectives);
+          const conflicting = prologue.find(
+            (d) => d.value !== required && others.includes(d.value),
+          );
+          if (conflicting) {
+            reportConflict(conflicting, "suffixMismatch", {
+              found: conflicting.value,
+              directive: required,
+              suffix,
+            });
+          } else if (!directives.includes(required)) {
+            reportMissing(
+              "addSuffixDirective",
+              { directive: required, suffix },
+              required,
+              [],
+            );
+          }
+          return;
         }
 
         const normalizedIgnored = new Set(ignoredDirectives);
@@ -226,12 +533,14 @@ const rule: Rule.RuleModule = {
             ? requireOneOf.some((d) => directives.includes(d))
             : false;
 
+        // "use cache" only modifies server code and says nothing about
+        // whether the file runs on the client or the server.
         const allowedDirectives = directives.filter(
-          (d) => !normalizedIgnored.has(d),
+          (d) => !normalizedIgnored.has(d) && !isCacheDirective(d),
         );
         const hasAnyUse = allowedDirectives.some((d) => d.startsWith("use "));
 
-        // Precedence: requireOneOf -> requireExact -> any non-ignored "use ..."
+        // Precedence: requireOneOf -> requireExact -> any allowed "use ..."
         if (Array.isArray(requireOneOf) && requireOneOf.length > 0) {
           if (hasOneOf) {
             return;
@@ -246,28 +555,39 @@ const rule: Rule.RuleModule = {
           }
         }
 
-        context.report({
-          node,
-          messageId: "addDirective",
-          data: { directive },
-          fix(fixer) {
-            const insertionText = `"${directive}";\n`;
-            const fullText = sourceCode.text ?? "";
-            if (fullText.startsWith("#!")) {
-              const newlineIdx = fullText.indexOf("\n");
-              const shebangLen =
-                newlineIdx === -1 ? fullText.length : newlineIdx + 1;
-              return fixer.insertTextAfterRange([0, shebangLen], insertionText);
-            }
-            const firstToken = sourceCode.getFirstToken(node, {
-              includeComments: false,
-            });
-            if (firstToken) {
-              return fixer.insertTextBefore(firstToken, insertionText);
-            }
-            return fixer.insertTextAfterRange([0, 0], insertionText);
-          },
-        });
+        const inferred = infer ? inferDirective(directive) : { directive };
+        const candidates =
+          Array.isArray(requireOneOf) && requireOneOf.length > 0
+            ? requireOneOf
+            : requireExact
+              ? [directive]
+              : [CLIENT_DIRECTIVE, SERVER_DIRECTIVE];
+
+        // "use cache" only works in server code, so "use client" must not
+        // be added next to it.
+        const cache = directives.find(isCacheDirective);
+        if (cache && inferred.directive === CLIENT_DIRECTIVE) {
+          reportMissing(
+            "clientWithCache",
+            { directive: inferred.directive, cache },
+            null,
+            candidates.filter((c) => c === SERVER_DIRECTIVE),
+          );
+          return;
+        }
+
+        reportMissing(
+          !infer
+            ? "addDirective"
+            : inferred.reason
+              ? "addInferredDirective"
+              : "addFallbackDirective",
+          { directive: inferred.directive, reason: inferred.reason ?? "" },
+          inferred.directive,
+          cache
+            ? candidates.filter((c) => c !== CLIENT_DIRECTIVE)
+            : candidates,
+        );
       },
     };
   },
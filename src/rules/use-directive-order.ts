@@ -0,0 +1,166 @@
+import type { Rule } from "eslint";
+import { isAsiHazard } from "../utils/directive-style.js";
+import {
+  getDirectivePrologue,
+  type PrologueDirective,
+} from "../utils/directives.js";
+
+type Options = [
+  {
+    /**
+     * Directives in the order they should appear. Entries may contain `*`
+     * wildcards ("use cache*", "*"). Exact entries win over wildcards;
+     * directives matching no entry go last.
+     */
+    order?: string[];
+  }?,
+];
+
+const DEFAULT_ORDER = ["use strict", "use client", "use server", "*"];
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^$|()[\]{}\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+/**
+ * Sorts the directive prologue into a configured order. The autofix moves
+ * each directive together with its original quotes and trailing comments and
+ * leaves the whitespace between directives where it was.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "layout",
+    docs: {
+      description: "enforce a consistent order of `use ...` directives",
+      recommended: false,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesuse-directive-order",
+    },
+    fixable: "code",
+    schema: [
+      {
+        type: "object",
+        properties: {
+          order: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            uniqueItems: true,
+            description:
+              "Directives in the order they should appear; `*` matches any characters",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      unsortedDirective: '"{{directive}}" should come before "{{previous}}".',
+    },
+  },
+
+  create(context) {
+    const [{ order = DEFAULT_ORDER } = {}] = context.options as Options;
+    const sourceCode = context.sourceCode;
+
+    const wildcards = order.flatMap((entry, index) =>
+      entry.includes("*") ? [{ index, re: wildcardToRegExp(entry) }] : [],
+    );
+
+    function rank(directive: string): number {
+      const exact = order.indexOf(directive);
+      if (exact !== -1) {
+        return exact;
+      }
+      return (
+        wildcards.find(({ re }) => re.test(directive))?.index ?? order.length
+      );
+    }
+
+    /**
+     * The range a directive moves with: the statement plus the comments after
+     * it on the same line, unless more code follows on that line.
+     */
+    function itemRange(directive: PrologueDirective): [number, number] {
+      const node = directive.node;
+      const line = node.loc!.end.line;
+      const nextToken = sourceCode.getTokenAfter(node);
+      if (nextToken && nextToken.loc.start.line === line) {
+        return [node.range![0], node.range![1]];
+      }
+      const trailing = sourceCode
+        .getCommentsAfter(node)
+        .filter((comment) => comment.loc!.start.line === line);
+      const end = trailing.length
+        ? trailing[trailing.length - 1]!.range![1]
+        : node.range![1];
+      return [node.range![0], end];
+    }
+
+    return {
+      Program(node) {
+        const prologue = getDirectivePrologue(node.body ?? []);
+        const ranks = prologue.map((d) => rank(d.value));
+        const index = ranks.findIndex((r, i) => i > 0 && r < ranks[i - 1]!);
+        if (index === -1) {
+          return;
+        }
+
+        const items = prologue.map((directive, i) => {
+          const range = itemRange(directive);
+          const node = directive.node;
+          return {
+            range,
+            rank: ranks[i]!,
+            text: sourceCode.text.slice(...range),
+            statementLength: node.range![1] - range[0],
+            semi: sourceCode.getLastToken(node)?.value === ";",
+            hasComments: range[1] > node.range![1],
+          };
+        });
+        // Array#sort is stable, so directives of equal rank keep their order.
+        const sorted = [...items].sort((a, b) => a.rank - b.rank);
+        // A directive without a semicolon that moves to the end of the
+        // prologue would continue into a following `(`, `[`, ... token.
+        const last = sorted[sorted.length - 1]!;
+        const lastNode = prologue.at(-1)!.node;
+        const following = sourceCode.getTokenAfter(lastNode);
+        if (!last.semi && isAsiHazard(following)) {
+          last.text =
+            last.text.slice(0, last.statementLength) +
+            ";" +
+            last.text.slice(last.statementLength);
+        }
+        // Moving a directive with a trailing line comment in front of another
+        // directive or code on the same line would comment that out.
+        const sharesLine =
+          prologue.some(
+            (d, i) =>
+              i > 0 &&
+              d.node.loc!.start.line === prologue[i - 1]!.node.loc!.end.line,
+          ) ||
+          (following?.loc.start.line === lastNode.loc!.end.line &&
+            last.hasComments);
+
+        context.report({
+          node: prologue[index]!.node,
+          messageId: "unsortedDirective",
+          data: {
+            directive: prologue[index]!.value,
+            previous: prologue[index - 1]!.value,
+          },
+          fix: sharesLine
+            ? null
+            : (fixer) =>
+                items.map((item, i) =>
+                  fixer.replaceTextRange(item.range, sorted[i]!.text),
+                ),
+        });
+      },
+    };
+  },
+};
+
+export default rule;
@@ -0,0 +1,138 @@
+import type { Rule } from "eslint";
+import {
+  DIRECTIVE_STYLE_SCHEMA_PROPERTIES,
+  formatDirective,
+  isAsiHazard,
+  type DirectiveStyle,
+  resolveQuote,
+} from "../utils/directive-style.js";
+import { getDirectivePrologue } from "../utils/directives.js";
+import { looksLikeUseDirective } from "../utils/known-directives.js";
+
+type Options = [DirectiveStyle?];
+
+const DEFAULTS: Required<DirectiveStyle> = {
+  quotes: "double",
+  semi: true,
+};
+
+/**
+ * Enforces a consistent style for prologue directives: quote character,
+ * semicolons and lowercase `use ...` directives. Shares its options with the
+ * insertion fixer of `require-use-directive-first`, so both agree on how a
+ * directive is written.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "layout",
+    docs: {
+      description:
+        "enforce consistent quotes, semicolons and casing for `use ...` directives",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesuse-directive-style",
+    },
+    fixable: "code",
+    schema: [
+      {
+        type: "object",
+        properties: DIRECTIVE_STYLE_SCHEMA_PROPERTIES,
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{}],
+    messages: {
+      wrongQuotes: 'Directive "{{directive}}" should use {{expected}} quotes.',
+      missingSemi: "Missing semicolon after directive.",
+      extraSemi: "Unnecessary semicolon after directive.",
+      notLowercase: 'Directive "{{directive}}" should be lowercase.',
+    },
+  },
+
+  create(context) {
+    const [{ quotes = DEFAULTS.quotes, semi = DEFAULTS.semi } = {}] =
+      context.options as Options;
+    const sourceCode = context.sourceCode;
+
+    return {
+      Program(node) {
+        const directives = getDirectivePrologue(node.body ?? []);
+        if (directives.length === 0) {
+          return;
+        }
+        const quote = resolveQuote(sourceCode, quotes);
+
+        for (const { value, node: stmt } of directives) {
+          const literal = sourceCode.getFirstToken(stmt)!;
+          const currentQuote = literal.value[0] as '"' | "'";
+          const lastToken = sourceCode.getLastToken(stmt)!;
+          const hasSemi =
+            lastToken.type === "Punctuator" && lastToken.value === ";";
+
+          if (looksLikeUseDirective(value) && value !== value.toLowerCase()) {
+            context.report({
+              node: stmt,
+              messageId: "notLowercase",
+              data: { directive: value },
+              fix(fixer) {
+                return fixer.replaceText(
+                  literal,
+                  formatDirective(value.toLowerCase(), currentQuote, false),
+                );
+              },
+            });
+          }
+
+          // Changing the quotes of a directive that contains quotes or escapes
+          // would change its value.
+          if (currentQuote !== quote && !/['"\\]/.test(value)) {
+            context.report({
+              node: stmt,
+              messageId: "wrongQuotes",
+              data: {
+                directive: value,
+                expected: quote === '"' ? "double" : "single",
+              },
+              fix(fixer) {
+                return fixer.replaceText(
+                  literal,
+                  formatDirective(value, quote, false),
+                );
+              },
+            });
+          }
+
+          if (semi && !hasSemi) {
+            context.report({
+              node: stmt,
+              messageId: "missingSemi",
+              fix(fixer) {
+                return fixer.insertTextAfter(stmt, ";");
+              },
+            });
+          } else if (!semi && hasSemi) {
+            // Like the core `semi` rule, keep semicolons that separate the
+            // directive from a statement on the same line or from a
+            // statement that would otherwise continue the directive.
+            const next = sourceCode.getTokenAfter(lastToken);
+            if (
+              next &&
+              (next.loc.start.line === lastToken.loc.end.line ||
+                isAsiHazard(next))
+            ) {
+              continue;
+            }
+            context.report({
+              node: stmt,
+              messageId: "extraSemi",
+              fix(fixer) {
+                return fixer.remove(lastToken);
+              },
+            });
+          }
+        }
+      },
+    };
+  },
+};
+
+export default rule;
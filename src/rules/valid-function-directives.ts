@@ -0,0 +1,190 @@
+import type { Rule } from "eslint";
+import {
+  detectNewline,
+  getDirectivePrologue,
+  removeStatement,
+} from "../utils/directives.js";
+import { isCacheDirective } from "../utils/known-directives.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+type FunctionNode = Rule.Node & {
+  async: boolean;
+  generator: boolean;
+  body: Rule.Node;
+};
+
+/** Function directives that turn the function into an async server entry. */
+function isServerFunctionDirective(value: string): boolean {
+  return value === SERVER_DIRECTIVE || isCacheDirective(value);
+}
+
+function isUseString(stmt: Rule.Node): stmt is Rule.Node & {
+  type: "ExpressionStatement";
+  expression: { type: "Literal"; value: string };
+} {
+  return (
+    stmt.type === "ExpressionStatement" &&
+    stmt.expression.type === "Literal" &&
+    typeof stmt.expression.value === "string" &&
+    stmt.expression.value.startsWith("use ")
+  );
+}
+
+/**
+ * Validates directives inside function bodies: inline "use server" server
+ * actions and "use cache" functions must be async and can't live in a
+ * "use client" module, and directives after the first statement of a
+ * function body (which have no effect) are reported as misplaced.
+ */
+const rule: Rule.RuleModule = {
+  meta: {
+    type: "problem",
+    docs: {
+      description: "enforce valid `use ...` directives inside function bodies",
+      recommended: true,
+      url: "https://github.com/<you>/<repo>#rule-explicit-use-directivesvalid-function-directives",
+    },
+    hasSuggestions: true,
+    schema: [],
+    messages: {
+      nonAsyncFunction: 'Functions marked "{{directive}}" must be async.',
+      makeAsync: "Make the function async.",
+      functionDirectiveInClientModule:
+        'Functions marked "{{directive}}" can\'t be defined in a "use client" module; move the function into a separate module.',
+      misplacedFunctionDirective:
+        '"{{directive}}" has no effect here: directives must come before any other statement in the function body.',
+      moveToTop: 'Move "{{directive}}" to the start of the function body.',
+    },
+  },
+
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const inClientModule = getDirectivePrologue(sourceCode.ast.body).some(
+      (d) => d.value === CLIENT_DIRECTIVE,
+    );
+
+    /**
+     * Where `async` goes: before the method name for methods, before the
+     * function itself otherwise. Getters, setters and constructors can't be
+     * async.
+     */
+    function asyncInsertionPoint(fn: FunctionNode): Rule.Node | null {
+      const parent = fn.parent;
+      if (
+        (parent.type === "MethodDefinition" || parent.type === "Property") &&
+        parent.value === fn
+      ) {
+        if (
+          parent.kind === "get" ||
+          parent.kind === "set" ||
+          parent.kind === "constructor"
+        ) {
+          return null;
+        }
+        if (parent.type === "MethodDefinition" || parent.method) {
+          return parent.key as Rule.Node;
+        }
+      }
+      return fn;
+    }
+
+    function checkFunction(node: Rule.Node) {
+      const fn = node as FunctionNode;
+      if (fn.body.type !== "BlockStatement") {
+        return;
+      }
+      const body = fn.body.body as Rule.Node[];
+      const prologue = getDirectivePrologue(body);
+
+      for (const directive of prologue) {
+        if (!isServerFunctionDirective(directive.value)) {
+          continue;
+        }
+        const data = { directive: directive.value };
+        if (inClientModule) {
+          context.report({
+            node: directive.node,
+            messageId: "functionDirectiveInClientModule",
+            data,
+          });
+        }
+        if (!fn.async) {
+          const target = fn.generator ? null : asyncInsertionPoint(fn);
+          context.report({
+            node: directive.node,
+            messageId: "nonAsyncFunction",
+            data,
+            suggest: target
+              ? [
+                  {
+                    messageId: "makeAsync",
+                    fix(fixer) {
+                      return fixer.insertTextBefore(
+                        sourceCode.getFirstToken(target)!,
+                        "async ",
+                      );
+                    },
+                  },
+                ]
+              : [],
+          });
+        }
+      }
+
+      const present = new Set(prologue.map((d) => d.value));
+      const firstStatement = body[0];
+      for (const stmt of body.slice(prologue.length)) {
+        if (!isUseString(stmt)) {
+          continue;
+        }
+        const directive = stmt.expression.value;
+        const alreadyPresent = present.has(directive);
+        context.report({
+          node: stmt,
+          messageId: "misplacedFunctionDirective",
+          data: { directive },
+          suggest: [
+            {
+              messageId: "moveToTop",
+              data: { directive },
+              fix(fixer) {
+                const removal = removeStatement(fixer, sourceCode, stmt);
+                if (alreadyPresent || !firstStatement) {
+                  return removal;
+                }
+                const lineStart = sourceCode.getIndexFromLoc({
+                  line: firstStatement.loc!.start.line,
+                  column: 0,
+                });
+                const before = sourceCode.text.slice(
+                  lineStart,
+                  firstStatement.range![0],
+                );
+                const separator = /^\s*$/.test(before)
+                  ? `${detectNewline(sourceCode.text)}${before}`
+                  : " ";
+                return [
+                  fixer.insertTextBefore(
+                    firstStatement,
+                    `${sourceCode.getText(stmt)}${separator}`,
+                  ),
+                  removal,
+                ];
+              },
+            },
+          ],
+        });
+      }
+    }
+
+    return {
+      FunctionDeclaration: checkFunction,
+      FunctionExpression: checkFunction,
+      ArrowFunctionExpression: checkFunction,
+    };
+  },
+};
+
+export default rule;
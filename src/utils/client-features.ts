@@ -0,0 +1,179 @@
+import type { Rule, Scope } from "eslint";
+
+export type ClientFeatureKind =
+  "hook" | "eventHandler" | "classComponent" | "browserGlobal";
+
+export interface ClientFeature {
+  kind: ClientFeatureKind;
+  /** Hook, prop, class or global name that triggered the detection. */
+  name: string;
+  node: Rule.Node;
+}
+
+/**
+ * Globals that only exist in the browser. Referencing one of them (without a
+ * local binding of the same name) means the module has to run on the client.
+ */
+export const BROWSER_GLOBALS: ReadonlySet<string> = new Set([
+  "window",
+  "document",
+  "navigator",
+  "location",
+  "history",
+  "localStorage",
+  "sessionStorage",
+  "indexedDB",
+  "matchMedia",
+  "requestAnimationFrame",
+  "cancelAnimationFrame",
+  "IntersectionObserver",
+  "ResizeObserver",
+  "MutationObserver",
+]);
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+const EVENT_HANDLER_PROP = /^on[A-Z]/;
+const CLASS_COMPONENT_BASES = new Set(["Component", "PureComponent"]);
+
+interface JSXAttributeLike {
+  type: "JSXAttribute";
+  name: { type: string; name?: string };
+}
+
+function hookName(callee: Rule.Node): string | undefined {
+  if (callee.type === "Identifier" && HOOK_NAME.test(callee.name)) {
+    return callee.name;
+  }
+  // React.useState(...)
+  if (
+    callee.type === "MemberExpression" &&
+    !callee.computed &&
+    callee.property.type === "Identifier" &&
+    HOOK_NAME.test(callee.property.name)
+  ) {
+    return callee.property.name;
+  }
+  return undefined;
+}
+
+function classComponentBase(
+  superClass: Rule.Node | null | undefined,
+): string | undefined {
+  if (!superClass) {
+    return undefined;
+  }
+  if (
+    superClass.type === "Identifier" &&
+    CLASS_COMPONENT_BASES.has(superClass.name)
+  ) {
+    return superClass.name;
+  }
+  if (
+    superClass.type === "MemberExpression" &&
+    !superClass.computed &&
+    superClass.property.type === "Identifier" &&
+    CLASS_COMPONENT_BASES.has(superClass.property.name)
+  ) {
+    return superClass.property.name;
+  }
+  return undefined;
+}
+
+/**
+ * Collects usages of client-only APIs while a rule traverses the file:
+ * React hook calls, JSX event handler props, class components and browser
+ * globals. Spread `visitors` into the rule's listener object and call
+ * `getFeatures()` from `Program:exit`, once the traversal is complete.
+ */
+export function createClientFeatureCollector(context: Rule.RuleContext): {
+  visitors: Rule.RuleListener;
+  getFeatures(): ClientFeature[];
+} {
+  const features: ClientFeature[] = [];
+
+  function checkClass(node: Rule.Node) {
+    if (node.type !== "ClassDeclaration" && node.type !== "ClassExpression") {
+      return;
+    }
+    const base = classComponentBase(node.superClass as Rule.Node | null);
+    if (base) {
+      features.push({ kind: "classComponent", name: base, node });
+    }
+  }
+
+  const visitors: Rule.RuleListener = {
+    CallExpression(node) {
+      const name = hookName(node.callee as Rule.Node);
+      if (name) {
+        features.push({ kind: "hook", name, node });
+      }
+    },
+    ClassDeclaration: checkClass,
+    ClassExpression: checkClass,
+    JSXAttribute(node: Rule.Node) {
+      const attribute = node as unknown as JSXAttributeLike;
+      const name = attribute.name.name;
+      if (
+        attribute.name.type === "JSXIdentifier" &&
+        name &&
+        EVENT_HANDLER_PROP.test(name)
+      ) {
+        features.push({ kind: "eventHandler", name, node });
+      }
+    },
+  };
+
+  function getFeatures(): ClientFeature[] {
+    const globalScope: Scope.Scope | null =
+      context.sourceCode.scopeManager?.globalScope ?? null;
+    const globals: ClientFeature[] = [];
+    if (globalScope) {
+      // Configured globals (e.g. `globals.browser`) resolve to variables
+      // without definitions; everything else stays unresolved in `through`.
+      const references = [...globalScope.through];
+      for (const name of BROWSER_GLOBALS) {
+        const variable = globalScope.set.get(name);
+        if (variable && variable.defs.length === 0) {
+          references.push(...variable.references);
+        }
+      }
+      for (const { identifier } of references) {
+        // `typeof window !== "undefined"` guards code that also runs on the
+        // server, so the check itself isn't browser usage.
+        const parent = (identifier as Rule.Node).parent;
+        if (
+          identifier.type === "Identifier" &&
+          BROWSER_GLOBALS.has(identifier.name) &&
+          !(parent?.type === "UnaryExpression" && parent.operator === "typeof")
+        ) {
+          globals.push({
+            kind: "browserGlobal",
+            name: identifier.name,
+            node: identifier as Rule.Node,
+          });
+        }
+      }
+    }
+    return [...features, ...globals].sort(
+      (a, b) => (a.node.range?.[0] ?? 0) - (b.node.range?.[0] ?? 0),
+    );
+  }
+
+  return { visitors, getFeatures };
+}
+
+/**
+ * Human readable description of a detected feature, used in report messages.
+ */
+export function describeClientFeature(feature: ClientFeature): string {
+  switch (feature.kind) {
+    case "hook":
+      return `calls React hook \`${feature.name}\``;
+    case "eventHandler":
+      return `passes JSX event handler \`${feature.name}\``;
+    case "classComponent":
+      return `declares a class component extending \`${feature.name}\``;
+    case "browserGlobal":
+      return `uses browser global \`${feature.name}\``;
+  }
+}
@@ -0,0 +1,179 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import { createFileCache } from "./file-cache.js";
+import {
+  RESOLVE_EXTENSIONS,
+  resolveImport,
+  type ResolveOptions,
+} from "./resolve-import.js";
+
+export interface ResolvedModule {
+  /** Absolute path of the resolved file. */
+  path: string;
+  /** Directive prologue values of the module, e.g. ["use server"]. */
+  directives: string[];
+}
+
+/**
+ * Tokens that continue an expression on the next line, so no semicolon is
+ * inserted after a string that ends a line (`"a"\n+ b`). `++` and `--` start
+ * a new statement.
+ */
+const CONTINUATION = /^(?:[([.,?=<>&|^%*/`]|\+(?!\+)|-(?!-)|!=|in(?:stanceof)?\b)/;
+
+/** Skips whitespace and comments; returns the index of the next token. */
+function skipTrivia(text: string, start: number): number {
+  let i = start;
+  while (i < text.length) {
+    if (/\s/.test(text[i]!)) {
+      i++;
+    } else if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Reads the directive prologue of a module without parsing it: the leading
+ * string literal statements, after an optional BOM, shebang and comments.
+ * Values are the raw text between the quotes, like ESLint's `directive`
+ * property. The scan stops at the first token that isn't part of a
+ * directive, so it costs next to nothing however long the file is.
+ */
+export function scanDirectivePrologue(text: string): string[] {
+  const directives: string[] = [];
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  if (text.startsWith("#!", i)) {
+    const end = text.indexOf("\n", i);
+    i = end === -1 ? text.length : end;
+  }
+
+  for (;;) {
+    i = skipTrivia(text, i);
+    const quote = text[i];
+    if (quote !== '"' && quote !== "'") {
+      return directives;
+    }
+    let end = i + 1;
+    while (end < text.length && text[end] !== quote && text[end] !== "\n") {
+      end += text[end] === "\\" ? 2 : 1;
+    }
+    if (text[end] !== quote) {
+      return directives;
+    }
+
+    // The string is a directive only if its statement ends right after it.
+    const next = skipTrivia(text, end + 1);
+    const lineBreak = /[\n\r\u2028\u2029]/.test(text.slice(end + 1, next));
+    if (text[next] === ";") {
+      directives.push(text.slice(i + 1, end));
+      i = next + 1;
+    } else if (
+      next >= text.length ||
+      (lineBreak && !CONTINUATION.test(text.slice(next, next + 11)))
+    ) {
+      directives.push(text.slice(i + 1, end));
+      i = next;
+    } else {
+      return directives;
+    }
+  }
+}
+
+const prologues = createFileCache<string[]>((filePath) => {
+  try {
+    return scanDirectivePrologue(readFileSync(filePath, "utf8"));
+  } catch {
+    return undefined;
+  }
+});
+
+/**
+ * Returns the directive prologue of a file, scanned once per change of the
+ * file for the whole lint run. Returns `undefined` when it can't be read.
+ */
+export function readModuleDirectives(filePath: string): string[] | undefined {
+  return prologues.get(filePath);
+}
+
+/**
+ * Resolves an import specifier (relative paths, tsconfig `paths` and package
+ * `exports`) and returns the resolved file with its directives.
+ */
+export function resolveModuleDirectives(
+  specifier: string,
+  fromFile: string,
+  options: ResolveOptions = {},
+): ResolvedModule | undefined {
+  const resolved = resolveImport(specifier, fromFile, options);
+  const directives = resolved ? readModuleDirectives(resolved) : undefined;
+  return resolved && directives ? { path: resolved, directives } : undefined;
+}
+
+const contentHashes = createFileCache<string>((filePath) => {
+  try {
+    return createHash("sha1").update(readFileSync(filePath)).digest("hex");
+  } catch {
+    return undefined;
+  }
+});
+
+function collectSourceFiles(dir: string, files: string[]): void {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    if (entry.name === "node_modules" || entry.name.startsWith(".")) {
+      continue;
+    }
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      collectSourceFiles(entryPath, files);
+    } else if (
+      (RESOLVE_EXTENSIONS as readonly string[]).includes(
+        path.extname(entry.name),
+      )
+    ) {
+      files.push(entryPath);
+    }
+  }
+}
+
+/**
+ * Returns a hash of the directives of every source file under `rootDir`
+ * (skipping `node_modules` and dot directories), plus the contents of
+ * "use server" files, whose exports the cross-file rules also read.
+ *
+ * ESLint's `--cache` only notices changes to the linted file and its config,
+ * so a file that imports a module whose directive changed would keep its
+ * cached result. Putting the fingerprint in `settings` makes such changes
+ * invalidate the cache.
+ */
+export function directiveFingerprint(rootDir = process.cwd()): string {
+  const files: string[] = [];
+  collectSourceFiles(rootDir, files);
+  const hash = createHash("sha1");
+  for (const file of files.sort()) {
+    const directives = readModuleDirectives(file);
+    if (!directives?.length) {
+      continue;
+    }
+    hash.update(`${path.relative(rootDir, file)}\0${directives.join("\0")}`);
+    if (directives.includes("use server")) {
+      hash.update(`\0${contentHashes.get(file) ?? ""}`);
+    }
+    hash.update("\n");
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,82 @@
+import type { AST, SourceCode } from "eslint";
+
+export type QuoteStyle = "double" | "single" | "consistent-with-file";
+
+export interface DirectiveStyle {
+  /** Quote character for directives. Default: "double". */
+  quotes?: QuoteStyle;
+  /** Whether directives end with a semicolon. Default: true. */
+  semi?: boolean;
+}
+
+/**
+ * Schema properties shared by every rule that writes directives, so the
+ * style rule and the insertion fixers are configured the same way.
+ */
+export const DIRECTIVE_STYLE_SCHEMA_PROPERTIES = {
+  quotes: {
+    enum: ["double", "single", "consistent-with-file"],
+    description:
+      "Quotes for directives; 'consistent-with-file' follows the majority of the file's other string literals",
+  },
+  semi: {
+    type: "boolean",
+    description: "Whether directives end with a semicolon",
+  },
+};
+
+/**
+ * First characters of a statement that would continue a directive without a
+ * semicolon instead of starting a new statement.
+ */
+const ASI_HAZARDS = new Set(["(", "[", "`", "+", "-", "/", "."]);
+
+/**
+ * Whether a token directly after a semicolon-less directive would be parsed
+ * as part of the directive's expression.
+ */
+export function isAsiHazard(token: AST.Token | null | undefined): boolean {
+  return Boolean(token && ASI_HAZARDS.has(token.value[0] ?? ""));
+}
+
+/**
+ * Resolves the quote character to use for directives in this file.
+ * "consistent-with-file" counts the quotes of all string literals outside the
+ * directive prologue and picks the more common one, preferring double quotes.
+ */
+export function resolveQuote(
+  sourceCode: SourceCode,
+  quotes: QuoteStyle = "double",
+): '"' | "'" {
+  if (quotes !== "consistent-with-file") {
+    return quotes === "single" ? "'" : '"';
+  }
+  const prologueEnd =
+    sourceCode.ast.body.find(
+      (stmt) => !(stmt as { directive?: string }).directive,
+    )?.range?.[0] ?? Infinity;
+  let single = 0;
+  let double = 0;
+  for (const token of sourceCode.ast.tokens) {
+    if (token.type !== "String" || token.range[0] < prologueEnd) {
+      continue;
+    }
+    if (token.value.startsWith("'")) {
+      single++;
+    } else if (token.value.startsWith('"')) {
+      double++;
+    }
+  }
+  return single > double ? "'" : '"';
+}
+
+/**
+ * Formats a directive statement, e.g. `'use client'` or `"use client";`.
+ */
+export function formatDirective(
+  value: string,
+  quote: '"' | "'",
+  semi = true,
+): string {
+  return `${quote}${value}${quote}${semi ? ";" : ""}`;
+}
@@ -0,0 +1,143 @@
+import type { Rule, SourceCode } from "eslint";
+import {
+  type DirectiveStyle,
+  formatDirective,
+  isAsiHazard,
+  resolveQuote,
+} from "./directive-style.js";
+
+export interface PrologueDirective {
+  /** The directive value without quotes, e.g. "use client". */
+  value: string;
+  /** The `ExpressionStatement` holding the directive. */
+  node: Rule.Node;
+}
+
+/**
+ * Returns the directive prologue of a `Program` or function body: the leading
+ * run of statements that the parser marked as directives.
+ */
+export function getDirectivePrologue(
+  body: readonly Rule.Node[] | readonly { type: string }[],
+): PrologueDirective[] {
+  const directives: PrologueDirective[] = [];
+  for (const stmt of body) {
+    const dir: string | undefined = (stmt as { directive?: string }).directive;
+    if (dir) {
+      directives.push({ value: dir, node: stmt as Rule.Node });
+    } else {
+      break;
+    }
+  }
+  return directives;
+}
+
+/**
+ * Where an inserted directive goes: "afterHeaderComments" keeps leading
+ * comments such as license banners and `// @ts-nocheck` above it, "top" puts
+ * it on the first line.
+ */
+export type DirectivePosition = "top" | "afterHeaderComments";
+
+export interface InsertDirectiveOptions extends DirectiveStyle {
+  /** Default: "afterHeaderComments". */
+  position?: DirectivePosition;
+}
+
+/**
+ * Returns the line break the file uses, judged by its first one, so fixes
+ * don't mix `\r\n` into `\n` files or the other way around. Files without
+ * line breaks get `\n`.
+ */
+export function detectNewline(text: string): string {
+  return /\r\n|\r|\n/.exec(text)?.[0] ?? "\n";
+}
+
+/**
+ * Inserts `"<directive>";` on its own line at the top of the file, always
+ * after a shebang, and by default after the leading comments too. `options`
+ * sets the quotes, semicolon and position; the semicolon is kept anyway when
+ * leaving it out would change how the next statement parses. The line break
+ * follows the file's, and a BOM stays first because ESLint keeps it out of
+ * the source text.
+ */
+export function insertDirective(
+  fixer: Rule.RuleFixer,
+  sourceCode: SourceCode,
+  directive: string,
+  options: InsertDirectiveOptions = {},
+): Rule.Fix {
+  const text = sourceCode.text ?? "";
+  const newline = detectNewline(text);
+  const firstToken = sourceCode.getFirstToken(sourceCode.ast, {
+    includeComments: false,
+  });
+  const statement = formatDirective(
+    directive,
+    resolveQuote(sourceCode, options.quotes),
+    options.semi !== false || isAsiHazard(firstToken),
+  );
+
+  if ((options.position ?? "afterHeaderComments") === "afterHeaderComments") {
+    if (firstToken) {
+      return fixer.insertTextBefore(firstToken, `${statement}${newline}`);
+    }
+    const lastComment = sourceCode.getAllComments().at(-1);
+    if (lastComment?.range) {
+      return fixer.insertTextAfterRange(
+        lastComment.range,
+        `${newline}${statement}`,
+      );
+    }
+  }
+  if (text.startsWith("#!")) {
+    const lineEnd = text.search(/\r\n|\r|\n/);
+    return lineEnd === -1
+      ? fixer.insertTextAfterRange([0, text.length], `${newline}${statement}`)
+      : fixer.insertTextAfterRange(
+          [0, lineEnd + (text.startsWith("\r\n", lineEnd) ? 2 : 1)],
+          `${statement}${newline}`,
+        );
+  }
+  return fixer.insertTextAfterRange([0, 0], `${statement}${newline}`);
+}
+
+/**
+ * Replaces the value of an existing directive, keeping its original quotes.
+ */
+export function replaceDirective(
+  fixer: Rule.RuleFixer,
+  sourceCode: SourceCode,
+  directive: PrologueDirective,
+  value: string,
+): Rule.Fix {
+  const literal = (directive.node as { expression?: Rule.Node }).expression;
+  const target = literal ?? directive.node;
+  const quote = sourceCode.getText(target).startsWith("'") ? "'" : '"';
+  return fixer.replaceText(target, `${quote}${value}${quote}`);
+}
+
+/**
+ * Removes a statement. When the statement is alone on its line, the whole
+ * line including its line break goes with it, so no blank line is left
+ * behind. When it ends a line after other code, the whitespace before it goes
+ * too, so no trailing whitespace is left behind.
+ */
+export function removeStatement(
+  fixer: Rule.RuleFixer,
+  sourceCode: SourceCode,
+  node: Rule.Node,
+): Rule.Fix {
+  const text = sourceCode.text;
+  let [start, end] = node.range!;
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEndMatch = /^[ \t]*(\r?\n|$)/.exec(text.slice(end));
+  if (/^[ \t]*$/.test(text.slice(lineStart, start)) && lineEndMatch) {
+    start = lineStart;
+    end += lineEndMatch[0].length;
+  } else if (lineEndMatch) {
+    start -= /[ \t]*$/.exec(text.slice(lineStart, start))![0].length;
+    end += lineEndMatch[0].length - lineEndMatch[1]!.length;
+  }
+  return fixer.removeRange([start, end]);
+}
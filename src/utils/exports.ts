@@ -0,0 +1,280 @@
+import type { Rule } from "eslint";
+
+export type ExportKind =
+  "asyncFunction" | "function" | "class" | "value" | "type" | "unknown";
+
+export interface ModuleExport {
+  /** Exported name; "default" for default exports, "*" for `export * from`. */
+  name: string;
+  kind: ExportKind;
+  /** The node to report for this export. */
+  node: Rule.Node;
+  /** The function that provides the value, when `kind` is a function kind. */
+  fn?: Rule.Node;
+  /** Module specifier for re-exports (`export { a } from "./x"`). */
+  source?: string;
+}
+
+/** Loosely typed AST node, so TypeScript and JSX node types can be inspected. */
+interface AnyNode {
+  type: string;
+  [key: string]: unknown;
+}
+
+/** What a module-level name is bound to. */
+type Binding =
+  | { type: "declaration"; node: AnyNode }
+  | { type: "variable"; init: AnyNode | null }
+  | { type: "import" }
+  | { type: "type" };
+
+const asRuleNode = (node: AnyNode) => node as unknown as Rule.Node;
+
+const TS_EXPRESSION_WRAPPERS = new Set([
+  "TSAsExpression",
+  "TSSatisfiesExpression",
+  "TSNonNullExpression",
+  "TSTypeAssertion",
+]);
+
+const TS_TYPE_DECLARATIONS = new Set([
+  "TSTypeAliasDeclaration",
+  "TSInterfaceDeclaration",
+  "TSDeclareFunction",
+  "TSModuleDeclaration",
+]);
+
+function unwrap(node: AnyNode): AnyNode {
+  let current = node;
+  while (TS_EXPRESSION_WRAPPERS.has(current.type)) {
+    current = current.expression as AnyNode;
+  }
+  return current;
+}
+
+/**
+ * Exports can only refer to module-level bindings, so a map of the top-level
+ * declarations is enough to follow them. This keeps the analysis independent
+ * of scope analysis and usable on ASTs of files that are not being linted.
+ */
+function collectBindings(body: AnyNode[]): Map<string, Binding> {
+  const bindings = new Map<string, Binding>();
+
+  function addDeclaration(node: AnyNode) {
+    const name = (node.id as AnyNode | null)?.name as string | undefined;
+    if (node.type === "VariableDeclaration") {
+      for (const declarator of node.declarations as AnyNode[]) {
+        const id = declarator.id as AnyNode;
+        if (id.type === "Identifier") {
+          bindings.set(id.name as string, {
+            type: "variable",
+            init: (declarator.init as AnyNode | null) ?? null,
+          });
+        }
+      }
+    } else if (!name) {
+      return;
+    } else if (
+      node.type === "FunctionDeclaration" ||
+      node.type === "ClassDeclaration" ||
+      node.type === "TSEnumDeclaration"
+    ) {
+      bindings.set(name, { type: "declaration", node });
+    } else if (TS_TYPE_DECLARATIONS.has(node.type)) {
+      bindings.set(name, { type: "type" });
+    }
+  }
+
+  for (const stmt of body) {
+    if (stmt.type === "ImportDeclaration") {
+      for (const specifier of stmt.specifiers as AnyNode[]) {
+        const local = specifier.local as AnyNode;
+        bindings.set(local.name as string, { type: "import" });
+      }
+    } else if (
+      (stmt.type === "ExportNamedDeclaration" ||
+        stmt.type === "ExportDefaultDeclaration") &&
+      stmt.declaration
+    ) {
+      addDeclaration(stmt.declaration as AnyNode);
+    } else {
+      addDeclaration(stmt);
+    }
+  }
+
+  return bindings;
+}
+
+function classifyBinding(
+  binding: Binding | undefined,
+  bindings: Map<string, Binding>,
+  depth: number,
+): { kind: ExportKind; fn?: Rule.Node } {
+  switch (binding?.type) {
+    case "declaration":
+      return binding.node.type === "TSEnumDeclaration"
+        ? { kind: "value" }
+        : classifyExpression(binding.node, bindings, depth);
+    case "variable":
+      return binding.init
+        ? classifyExpression(binding.init, bindings, depth)
+        : { kind: "value" };
+    case "type":
+      return { kind: "type" };
+    default:
+      // Imported bindings live in another module.
+      return { kind: "unknown" };
+  }
+}
+
+function classifyExpression(
+  node: AnyNode,
+  bindings: Map<string, Binding>,
+  depth = 0,
+): { kind: ExportKind; fn?: Rule.Node } {
+  const expr = unwrap(node);
+  switch (expr.type) {
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression":
+      return {
+        kind: expr.async && !expr.generator ? "asyncFunction" : "function",
+        fn: asRuleNode(expr),
+      };
+    case "ClassDeclaration":
+    case "ClassExpression":
+      return { kind: "class" };
+    case "Identifier":
+      if (expr.name === "undefined") {
+        return { kind: "value" };
+      }
+      if (depth > 5) {
+        return { kind: "unknown" };
+      }
+      return classifyBinding(
+        bindings.get(expr.name as string),
+        bindings,
+        depth + 1,
+      );
+    case "Literal":
+    case "TemplateLiteral":
+    case "ObjectExpression":
+    case "ArrayExpression":
+    case "NewExpression":
+    case "UnaryExpression":
+    case "BinaryExpression":
+    case "JSXElement":
+    case "JSXFragment":
+      return { kind: "value" };
+    default:
+      // Calls, member access and other computed values can't be classified
+      // without evaluating the module.
+      return { kind: "unknown" };
+  }
+}
+
+function exportedName(node: AnyNode): string {
+  return node.type === "Identifier"
+    ? (node.name as string)
+    : String(node.value as string);
+}
+
+/**
+ * Lists every export of the module together with a best-effort
+ * classification of the exported value. Only same-file bindings are
+ * followed; imported bindings and computed values are classified as
+ * "unknown". Works on any ESTree `Program`, including ASTs of other files.
+ */
+export function collectModuleExports(program: {
+  body: readonly unknown[];
+}): ModuleExport[] {
+  const result: ModuleExport[] = [];
+  const body = program.body as AnyNode[];
+  const bindings = collectBindings(body);
+
+  for (const stmt of body) {
+    if (stmt.type === "ExportAllDeclaration") {
+      result.push({
+        name: stmt.exported ? exportedName(stmt.exported as AnyNode) : "*",
+        kind: stmt.exportKind === "type" ? "type" : "unknown",
+        node: asRuleNode(stmt),
+        source: (stmt.source as AnyNode).value as string,
+      });
+    } else if (stmt.type === "ExportDefaultDeclaration") {
+      const declaration = stmt.declaration as AnyNode;
+      const { kind, fn } =
+        declaration.type === "TSInterfaceDeclaration"
+          ? { kind: "type" as const, fn: undefined }
+          : classifyExpression(declaration, bindings);
+      result.push({ name: "default", kind, fn, node: asRuleNode(declaration) });
+    } else if (stmt.type === "ExportNamedDeclaration") {
+      const declaration = stmt.declaration as AnyNode | null;
+      if (stmt.exportKind === "type") {
+        continue;
+      }
+      if (declaration) {
+        if (declaration.type === "VariableDeclaration") {
+          for (const declarator of declaration.declarations as AnyNode[]) {
+            const id = declarator.id as AnyNode;
+            const init = declarator.init as AnyNode | null;
+            const { kind, fn } = init
+              ? classifyExpression(init, bindings)
+              : { kind: "value" as const, fn: undefined };
+            result.push({
+              name: id.type === "Identifier" ? (id.name as string) : "",
+              kind,
+              fn,
+              node: asRuleNode(declarator),
+            });
+          }
+        } else if (
+          declaration.type === "FunctionDeclaration" ||
+          declaration.type === "ClassDeclaration"
+        ) {
+          const { kind, fn } = classifyExpression(declaration, bindings);
+          result.push({
+            name: ((declaration.id as AnyNode).name as string) ?? "",
+            kind,
+            fn,
+            node: asRuleNode(declaration),
+          });
+        } else if (declaration.type === "TSEnumDeclaration") {
+          result.push({
+            name: (declaration.id as AnyNode).name as string,
+            kind: "value",
+            node: asRuleNode(declaration),
+          });
+        }
+        // Remaining declarations are type-only (interfaces, type aliases,
+        // `declare` statements) and are erased at compile time.
+        continue;
+      }
+      const source = (stmt.source as AnyNode | null)?.value as
+        string | undefined;
+      for (const specifier of stmt.specifiers as AnyNode[]) {
+        if (specifier.exportKind === "type") {
+          continue;
+        }
+        const local = specifier.local as AnyNode;
+        const name = exportedName(specifier.exported as AnyNode);
+        if (source !== undefined) {
+          result.push({
+            name,
+            kind: "unknown",
+            node: asRuleNode(specifier),
+            source,
+          });
+          continue;
+        }
+        const { kind, fn } = classifyBinding(
+          bindings.get(exportedName(local)),
+          bindings,
+          0,
+        );
+        result.push({ name, kind, fn, node: asRuleNode(specifier) });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+import { statSync } from "fs";
+
+interface Entry<T> {
+  mtimeMs: number;
+  size: number;
+  value: T | undefined;
+}
+
+export interface FileCache<T> {
+  /**
+   * Returns the cached value for a file, loading it again when the file's
+   * mtime or size changed. Missing files give `undefined`.
+   */
+  get(filePath: string): T | undefined;
+  clear(): void;
+}
+
+/**
+ * Caches a value derived from a file for as long as the file is unchanged.
+ * The cache lives for the whole process, so a lint run reads every imported
+ * file once no matter how many files import it, and editor integrations
+ * still see edits.
+ */
+export function createFileCache<T>(
+  load: (filePath: string) => T | undefined,
+): FileCache<T> {
+  const entries = new Map<string, Entry<T>>();
+  return {
+    get(filePath) {
+      let stats;
+      try {
+        stats = statSync(filePath);
+      } catch {
+        entries.delete(filePath);
+        return undefined;
+      }
+      const cached = entries.get(filePath);
+      if (
+        cached &&
+        cached.mtimeMs === stats.mtimeMs &&
+        cached.size === stats.size
+      ) {
+        return cached.value;
+      }
+      const value = load(filePath);
+      entries.set(filePath, {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        value,
+      });
+      return value;
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { matchGlobs } from "./glob.js";
+
+/** Extensions checked when no `extensions` option is given. */
+export const DEFAULT_EXTENSIONS: readonly string[] = ["jsx", "tsx"];
+
+export interface FileFilterOptions {
+  /** Extensions without the dot; empty or missing means the defaults. */
+  extensions?: readonly string[];
+  ignore?: readonly string[];
+  include?: readonly string[];
+  includeNodeModules?: boolean;
+}
+
+/** Returns the lower-cased extension of a file without the dot. */
+export function getExtension(filePath: string): string {
+  return filePath.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+}
+
+/** Returns whether a file has one of `extensions`, or of the defaults. */
+export function hasSelectedExtension(
+  filePath: string,
+  extensions: readonly string[] | undefined,
+): boolean {
+  const selected =
+    extensions && extensions.length > 0
+      ? extensions.map((e) => e.toLowerCase())
+      : DEFAULT_EXTENSIONS;
+  return selected.includes(getExtension(filePath));
+}
+
+/**
+ * Applies `include`, `ignore` and `includeNodeModules` to a path. Files under
+ * `node_modules` are ignored first, so `ignore` can re-include packages with
+ * `!` patterns.
+ */
+export function isPathSelected(
+  filePath: string,
+  options: FileFilterOptions,
+  cwd: string,
+): boolean {
+  const { ignore = [], include = [], includeNodeModules = false } = options;
+  const effectiveIgnore = includeNodeModules
+    ? ignore
+    : ["**/node_modules/**", ...ignore];
+  return (
+    (include.length === 0 ||
+      matchGlobs(filePath, include, cwd) !== undefined) &&
+    matchGlobs(filePath, effectiveIgnore, cwd) === undefined
+  );
+}
@@ -0,0 +1,32 @@
+import * as path from "path";
+
+/** Directives implied by the `.server` and `.client` filename conventions. */
+export const DEFAULT_SUFFIX_DIRECTIVES: Readonly<Record<string, string>> = {
+  server: "use server",
+  client: "use client",
+};
+
+/**
+ * Returns which of `suffixes` marks a file, following the React Router /
+ * Remix conventions: a suffix before the extension (`db.server.ts`) or a
+ * directory named after it (`.server/db.ts`). The file name wins over its
+ * directories.
+ */
+export function getFileSuffix(
+  filePath: string,
+  suffixes: readonly string[],
+): string | undefined {
+  const posix = filePath.split(path.sep).join("/");
+  const stem = path.posix.basename(posix).replace(/\.[^.]*$/, "");
+  const fromName = stem.match(/\.([^.]+)$/)?.[1];
+  if (fromName && suffixes.includes(fromName)) {
+    return fromName;
+  }
+  const directories = path.posix.dirname(posix).split("/").reverse();
+  for (const directory of directories) {
+    if (directory.startsWith(".") && suffixes.includes(directory.slice(1))) {
+      return directory.slice(1);
+    }
+  }
+  return undefined;
+}
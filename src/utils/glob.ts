@@ -0,0 +1,189 @@
+import * as path from "path";
+
+/** Compiled patterns, shared by every rule instance for the whole process. */
+const compiled = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^$|()[\]{}\\]/g, "\\$&");
+}
+
+/**
+ * Returns the index of the `]` closing the character class that starts at
+ * `start`, or -1 when the `[` is literal. A `]` right after the opening
+ * bracket (or its negation) belongs to the class.
+ */
+function classEnd(glob: string, start: number): number {
+  let i = start + 1;
+  if (glob[i] === "!" || glob[i] === "^") {
+    i++;
+  }
+  if (glob[i] === "]") {
+    i++;
+  }
+  return glob.indexOf("]", i);
+}
+
+/** Splits a brace body at its top-level commas. */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts;
+}
+
+/**
+ * Expands `{a,b}` alternatives, including nested ones, into separate
+ * patterns. Braces without a comma are literal.
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let open = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[" && depth === 0) {
+      const end = classEnd(pattern, i);
+      i = end === -1 ? i : end;
+    } else if (ch === "{") {
+      if (depth === 0) {
+        open = i;
+      }
+      depth++;
+    } else if (ch === "}" && depth > 0) {
+      depth--;
+      if (depth > 0) {
+        continue;
+      }
+      const alternatives = splitAlternatives(pattern.slice(open + 1, i));
+      if (alternatives.length > 1) {
+        const prefix = pattern.slice(0, open);
+        const suffix = pattern.slice(i + 1);
+        return alternatives.flatMap((alternative) =>
+          expandBraces(prefix + alternative + suffix),
+        );
+      }
+    }
+  }
+  return [pattern];
+}
+
+/** Translates a pattern without braces into a regular expression body. */
+function toRegExpSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "\\" && i + 1 < glob.length) {
+      i++;
+      out += escapeRegExp(glob[i]!);
+    } else if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        while (glob[i + 1] === "*") {
+          i++;
+        }
+        if (glob[i + 1] === "/") {
+          // "**/" matches whole directories only, so "**/page.tsx" doesn't
+          // match "homepage.tsx".
+          i++;
+          out += "(?:.*/)?";
+        } else {
+          out += ".*";
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "[") {
+      const end = classEnd(glob, i);
+      if (end === -1) {
+        out += "\\[";
+        continue;
+      }
+      let body = glob.slice(i + 1, end);
+      const negated = body.startsWith("!") || body.startsWith("^");
+      if (negated) {
+        body = body.slice(1);
+      }
+      body = body.replace(/[\\\]^]/g, "\\$&");
+      // Classes never match the path separator.
+      out += negated ? `[^/${body}]` : `(?!/)[${body}]`;
+      i = end;
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+  return out;
+}
+
+/**
+ * Compiles a glob into a regular expression matching whole POSIX paths.
+ * Supports `**`, `*`, `?`, character classes (`[abc]`, `[a-z]`, `[!abc]`),
+ * braces (`{a,b}`, nested too) and `\` escapes. Results are cached.
+ */
+export function compileGlob(pattern: string): RegExp {
+  let re = compiled.get(pattern);
+  if (!re) {
+    const sources = expandBraces(pattern).map(toRegExpSource);
+    re = new RegExp(`^(?:${sources.join("|")})$`);
+    compiled.set(pattern, re);
+  }
+  return re;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Matches a file against a list of patterns and returns the pattern that
+ * decided the match, or `undefined` if none did. Patterns apply in order and
+ * the last matching one wins; a pattern starting with `!` excludes the files
+ * it matches again, so `["**\/generated/**", "!**\/generated/keep/**"]`
+ * matches generated files except the kept ones.
+ *
+ * Absolute patterns match the absolute path. Other patterns match the path
+ * relative to `cwd` (a leading `./` is optional); for files outside `cwd`,
+ * those starting with `**\/` match the absolute path instead. Directories
+ * above `cwd` never count, so `**\/app/**` doesn't match every file of a
+ * project checked out in `/app`.
+ */
+export function matchGlobs(
+  filePath: string,
+  patterns: readonly string[],
+  cwd: string,
+): string | undefined {
+  const absolute = toPosix(filePath);
+  const relative = toPosix(path.relative(cwd, filePath));
+  const outsideCwd = relative.startsWith("../") || path.isAbsolute(relative);
+  let decided: string | undefined;
+  for (const raw of patterns) {
+    const negated = raw.startsWith("!");
+    const pattern = (negated ? raw.slice(1) : raw).replace(/^\.\//, "");
+    const re = compileGlob(pattern);
+    const matches =
+      pattern.startsWith("/") || /^[A-Za-z]:\//.test(pattern)
+        ? re.test(absolute)
+        : outsideCwd
+          ? pattern.startsWith("**/") && re.test(absolute)
+          : re.test(relative);
+    if (matches) {
+      decided = negated ? undefined : raw;
+    }
+  }
+  return decided;
+}
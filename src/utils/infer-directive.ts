@@ -0,0 +1,127 @@
+import {
+  type ClientFeature,
+  describeClientFeature,
+} from "./client-features.js";
+import { collectModuleExports, type ModuleExport } from "./exports.js";
+
+const CLIENT_DIRECTIVE = "use client";
+const SERVER_DIRECTIVE = "use server";
+
+const COMPONENT_NAME = /^[A-Z]/;
+
+const FUNCTION_TYPES = new Set([
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+]);
+
+/** Loosely typed AST node, so JSX node types can be inspected. */
+interface AnyNode {
+  type: string;
+  [key: string]: unknown;
+}
+
+function isJsx(node: AnyNode | null | undefined): boolean {
+  switch (node?.type) {
+    case "JSXElement":
+    case "JSXFragment":
+      return true;
+    case "ConditionalExpression":
+      return (
+        isJsx(node.consequent as AnyNode) || isJsx(node.alternate as AnyNode)
+      );
+    case "LogicalExpression":
+      return isJsx(node.right as AnyNode);
+    default:
+      return false;
+  }
+}
+
+/** Whether a `return` outside nested functions hands back JSX. */
+function hasJsxReturn(node: unknown): boolean {
+  if (!node || typeof node !== "object") {
+    return false;
+  }
+  if (Array.isArray(node)) {
+    return node.some(hasJsxReturn);
+  }
+  const current = node as AnyNode;
+  if (FUNCTION_TYPES.has(current.type)) {
+    return false;
+  }
+  if (current.type === "ReturnStatement") {
+    return isJsx(current.argument as AnyNode | null);
+  }
+  return Object.entries(current).some(
+    ([key, value]) => key !== "parent" && hasJsxReturn(value),
+  );
+}
+
+/**
+ * Whether an exported function is a React component: it has a component name
+ * or returns JSX. Async ones are Server Components, not server functions.
+ */
+function isComponent(exported: ModuleExport): boolean {
+  const fn = exported.fn as unknown as AnyNode | undefined;
+  if (!fn) {
+    return false;
+  }
+  const id = fn.id as AnyNode | null | undefined;
+  const name = (id?.name as string | undefined) ?? exported.name;
+  const body = fn.body as AnyNode;
+  return (
+    COMPONENT_NAME.test(name) ||
+    (body.type === "BlockStatement" ? hasJsxReturn(body.body) : isJsx(body))
+  );
+}
+
+export interface InferredDirective {
+  directive: string;
+  /** Why the file needs the directive, phrased to follow "the file". */
+  reason: string;
+}
+
+/**
+ * Infers the directive a file needs from the client-only APIs it uses
+ * (collected with `createClientFeatureCollector`) and its exports: "use
+ * client" for client features, "use server" when every runtime export is an
+ * async function that isn't an async Server Component. Client features win
+ * over server evidence, because a module that calls hooks can't run on the
+ * server no matter what it exports. `accepts` rules out directives the caller
+ * can't insert. Returns undefined when the file gives no clear evidence.
+ */
+export function inferUseDirective(
+  program: { body: readonly unknown[] },
+  features: readonly ClientFeature[],
+  accepts: (directive: string) => boolean = () => true,
+): InferredDirective | undefined {
+  const [feature] = features;
+  if (feature) {
+    return accepts(CLIENT_DIRECTIVE)
+      ? { directive: CLIENT_DIRECTIVE, reason: describeClientFeature(feature) }
+      : undefined;
+  }
+
+  const exports = collectModuleExports(program).filter(
+    (e) => e.kind !== "type",
+  );
+  if (
+    exports.length > 0 &&
+    exports.every((e) => e.kind === "asyncFunction") &&
+    !exports.some(isComponent) &&
+    accepts(SERVER_DIRECTIVE)
+  ) {
+    return {
+      directive: SERVER_DIRECTIVE,
+      reason: "only exports async functions",
+    };
+  }
+  return undefined;
+}
+
+/** Whether any export of the module is a function component. */
+export function exportsComponent(program: {
+  body: readonly unknown[];
+}): boolean {
+  return collectModuleExports(program).some(isComponent);
+}
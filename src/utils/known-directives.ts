@@ -0,0 +1,82 @@
+/**
+ * Directives that frameworks and tools understand. Anything else that looks
+ * like a `use ...` directive is most likely a typo, which frameworks ignore
+ * without any warning.
+ */
+export const KNOWN_DIRECTIVES: readonly string[] = [
+  "use client",
+  "use server",
+  "use cache",
+  "use cache: remote",
+  "use cache: private",
+  "use strict",
+  "use memo",
+  "use no memo",
+  "use dom",
+];
+
+/**
+ * Whether a directive is "use cache" or one of its variants such as
+ * "use cache: remote".
+ */
+export function isCacheDirective(value: string): boolean {
+  return value === "use cache" || value.startsWith("use cache:");
+}
+
+/**
+ * Lowercases and turns `-`/`_` separators into spaces, so that "Use-Client"
+ * and "use client" compare equal.
+ */
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[-_\s]+/g, " ")
+    .trim();
+}
+
+/**
+ * Whether a prologue string is meant to be a `use ...` directive.
+ */
+export function looksLikeUseDirective(value: string): boolean {
+  return /^use\b/.test(normalize(value));
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Known directives closest to `value`, best match first. Only candidates
+ * within `maxDistance` edits (after normalizing case and separators) are
+ * returned.
+ */
+export function closestDirectives(
+  value: string,
+  known: readonly string[],
+  maxDistance = 3,
+): string[] {
+  const normalized = normalize(value);
+  return known
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(normalized, normalize(candidate)),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+}
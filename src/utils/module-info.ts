@@ -0,0 +1,103 @@
+import { readFileSync } from "fs";
+import type { Linter, Rule } from "eslint";
+import { getDirectivePrologue } from "./directives.js";
+import { collectModuleExports, type ModuleExport } from "./exports.js";
+import { createFileCache, type FileCache } from "./file-cache.js";
+
+export interface ModuleInfo {
+  /** Directive prologue values of the module, e.g. ["use server"]. */
+  directives: string[];
+  exports: ModuleExport[];
+}
+
+/**
+ * Parser options that make a parser type-check or otherwise tie the parse to
+ * the linted file. Imported modules only need a syntax tree.
+ */
+const PROGRAM_OPTIONS = ["project", "projectService", "programs"];
+
+function parse(
+  parser: Linter.Parser,
+  text: string,
+  options: Record<string, unknown>,
+): { body: unknown[] } {
+  const result =
+    "parseForESLint" in parser
+      ? parser.parseForESLint(text, options).ast
+      : parser.parse(text, options);
+  return result as { body: unknown[] };
+}
+
+/**
+ * Parsed modules per language options. ESLint shares one options object
+ * between files with the same config, so each module is parsed once per
+ * change for the whole lint run, however many files import it.
+ */
+const caches = new WeakMap<
+  Linter.LanguageOptions,
+  FileCache<ModuleInfo>
+>();
+
+/**
+ * Parses another module with the parser configured for the linted file and
+ * returns its directive prologue and exports. Returns `undefined` when the
+ * file can't be read or parsed. Results are cached by path and mtime; use
+ * `readModuleDirectives` when only the directives are needed.
+ */
+export function readModuleInfo(
+  filePath: string,
+  context: Rule.RuleContext,
+): ModuleInfo | undefined {
+  const languageOptions = context.languageOptions;
+  let cache = caches.get(languageOptions);
+  if (!cache) {
+    cache = createFileCache((target) => parseModule(target, languageOptions));
+    caches.set(languageOptions, cache);
+  }
+  return cache.get(filePath);
+}
+
+function parseModule(
+  filePath: string,
+  languageOptions: Linter.LanguageOptions,
+): ModuleInfo | undefined {
+  const { parser, parserOptions, ecmaVersion, sourceType } = languageOptions;
+  if (!parser) {
+    return undefined;
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  const options: Record<string, unknown> = {
+    ecmaVersion: ecmaVersion ?? "latest",
+    sourceType: sourceType ?? "module",
+    ...parserOptions,
+    filePath,
+    range: true,
+    loc: true,
+    tokens: true,
+    comment: true,
+  };
+  for (const key of PROGRAM_OPTIONS) {
+    delete options[key];
+  }
+
+  let program: { body: unknown[] };
+  try {
+    program = parse(parser, text.replace(/^\uFEFF/, ""), options);
+  } catch {
+    return undefined;
+  }
+
+  return {
+    directives: getDirectivePrologue(program.body as { type: string }[]).map(
+      (d) => d.value,
+    ),
+    exports: collectModuleExports(program),
+  };
+}
@@ -0,0 +1,356 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import * as path from "path";
+import { createFileCache } from "./file-cache.js";
+
+/** Extensions tried, in order, when a specifier omits one. */
+export const RESOLVE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+] as const;
+
+/** TypeScript lets `./foo.js` refer to `./foo.ts`; these are the mappings. */
+const TS_SOURCE_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+interface PathMapping {
+  /** Directory that the `paths` entries are relative to. */
+  base: string;
+  /** Whether `baseUrl` is set, which also makes bare specifiers resolvable. */
+  hasBaseUrl: boolean;
+  paths: Record<string, string[]>;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses tsconfig-flavoured JSON: comments and trailing commas are allowed.
+ */
+export function parseJsonc(text: string): unknown {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") {
+          i++;
+        }
+      }
+      out += text.slice(start, i + 1);
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        i++;
+      }
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+/** tsconfig and package.json files, parsed once per change. */
+const jsonFiles = createFileCache<unknown>((filePath) => {
+  try {
+    return parseJsonc(readFileSync(filePath, "utf8"));
+  } catch {
+    return undefined;
+  }
+});
+
+/**
+ * Reads `baseUrl` and `paths` from a tsconfig file, following relative
+ * `extends` chains. Settings from the extending config win.
+ */
+function readPathMapping(
+  tsconfigPath: string,
+  seen = new Set<string>(),
+): PathMapping | undefined {
+  if (seen.has(tsconfigPath)) {
+    return undefined;
+  }
+  seen.add(tsconfigPath);
+
+  const config = jsonFiles.get(tsconfigPath) as
+    | {
+        extends?: string | string[];
+        compilerOptions?: {
+          baseUrl?: string;
+          paths?: Record<string, string[]>;
+        };
+      }
+    | undefined;
+  if (!config) {
+    return undefined;
+  }
+
+  const dir = path.dirname(tsconfigPath);
+  let inherited: PathMapping | undefined;
+  const parents = Array.isArray(config.extends)
+    ? config.extends
+    : config.extends
+      ? [config.extends]
+      : [];
+  for (const parent of parents) {
+    if (parent.startsWith(".")) {
+      const parentPath = path.resolve(
+        dir,
+        parent.endsWith(".json") ? parent : `${parent}.json`,
+      );
+      inherited = readPathMapping(parentPath, seen) ?? inherited;
+    }
+  }
+
+  const { baseUrl, paths } = config.compilerOptions ?? {};
+  if (!baseUrl && !paths) {
+    return inherited;
+  }
+  return {
+    base: baseUrl ? path.resolve(dir, baseUrl) : (inherited?.base ?? dir),
+    hasBaseUrl: Boolean(baseUrl) || Boolean(inherited?.hasBaseUrl),
+    paths: paths ?? inherited?.paths ?? {},
+  };
+}
+
+/**
+ * Finds the tsconfig.json closest to `fromDir`, walking up the directory tree.
+ */
+export function findTsconfig(fromDir: string): string | undefined {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, "tsconfig.json");
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Resolves a path without extension (or with a JS extension standing in for
+ * a TypeScript source) to an existing file.
+ */
+function resolveFile(target: string): string | undefined {
+  if (isFile(target)) {
+    return target;
+  }
+  const ext = path.extname(target);
+  for (const sourceExt of TS_SOURCE_EXTENSIONS[ext] ?? []) {
+    const candidate = target.slice(0, -ext.length) + sourceExt;
+    if (isFile(candidate)) {
+      return candidate;
+    }
+  }
+  for (const candidateExt of RESOLVE_EXTENSIONS) {
+    if (isFile(target + candidateExt)) {
+      return target + candidateExt;
+    }
+  }
+  for (const candidateExt of RESOLVE_EXTENSIONS) {
+    const candidate = path.join(target, `index${candidateExt}`);
+    if (isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function matchPathPattern(pattern: string, specifier: string): string | null {
+  const star = pattern.indexOf("*");
+  if (star === -1) {
+    return pattern === specifier ? "" : null;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return null;
+}
+
+/**
+ * Conditions matched in package `exports`. Like Node.js, the first key of a
+ * conditions object that is in this set wins.
+ */
+const EXPORT_CONDITIONS = new Set(["import", "node", "default"]);
+
+type ExportsTarget =
+  | string
+  | null
+  | ExportsTarget[]
+  | { [key: string]: ExportsTarget };
+
+function resolveExportsTarget(
+  target: ExportsTarget | undefined,
+  wildcard: string,
+): string | undefined {
+  if (typeof target === "string") {
+    return target.replaceAll("*", wildcard);
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveExportsTarget(item, wildcard);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  } else if (target) {
+    for (const [condition, value] of Object.entries(target)) {
+      const resolved = EXPORT_CONDITIONS.has(condition)
+        ? resolveExportsTarget(value, wildcard)
+        : undefined;
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Looks up a subpath ("." or "./x") in a package's `exports` field. */
+function resolveExports(
+  exports: ExportsTarget,
+  subpath: string,
+): string | undefined {
+  const subpaths =
+    exports && typeof exports === "object" && !Array.isArray(exports)
+      ? Object.keys(exports).filter((key) => key.startsWith("."))
+      : [];
+  if (subpaths.length === 0) {
+    return subpath === "." ? resolveExportsTarget(exports, "") : undefined;
+  }
+  const map = exports as Record<string, ExportsTarget>;
+  if (subpaths.includes(subpath)) {
+    return resolveExportsTarget(map[subpath], "");
+  }
+  // The pattern with the longest prefix wins, then the longest pattern.
+  const patterns = subpaths
+    .filter((key) => key.includes("*"))
+    .sort((a, b) => b.indexOf("*") - a.indexOf("*") || b.length - a.length);
+  for (const pattern of patterns) {
+    const wildcard = matchPathPattern(pattern, subpath);
+    if (wildcard !== null) {
+      return resolveExportsTarget(map[pattern], wildcard);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a bare specifier to a file of a package in a `node_modules`
+ * directory above `fromDir`: through the package's `exports` when it has
+ * them, otherwise through `main` or the subpath.
+ */
+function resolvePackage(
+  specifier: string,
+  fromDir: string,
+): string | undefined {
+  const match = /^((?:@[^/]+\/)?[^/]+)(\/.*)?$/.exec(specifier);
+  if (!match) {
+    return undefined;
+  }
+  const [, name, rest = ""] = match;
+  const subpath = `.${rest}`;
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const packageDir = path.join(dir, "node_modules", name!);
+    const manifest = jsonFiles.get(path.join(packageDir, "package.json")) as
+      | { exports?: ExportsTarget; main?: string }
+      | undefined;
+    if (manifest) {
+      if (manifest.exports !== undefined) {
+        const target = resolveExports(manifest.exports, subpath);
+        const resolved = target && path.resolve(packageDir, target);
+        return resolved && isFile(resolved) ? resolved : undefined;
+      }
+      return resolveFile(
+        path.resolve(
+          packageDir,
+          subpath === "." ? (manifest.main ?? "index") : subpath,
+        ),
+      );
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+export interface ResolveOptions {
+  /** tsconfig.json to read `paths` from; defaults to the nearest one. */
+  tsconfigPath?: string;
+}
+
+/**
+ * Resolves an import specifier to a file on disk. Handles relative and
+ * absolute paths, tsconfig `paths`/`baseUrl` aliases and packages in
+ * `node_modules` (including their `exports`). Returns `undefined` for
+ * anything else, such as Node.js builtins.
+ */
+export function resolveImport(
+  specifier: string,
+  fromFile: string,
+  options: ResolveOptions = {},
+): string | undefined {
+  const fromDir = path.dirname(fromFile);
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return resolveFile(path.resolve(fromDir, specifier));
+  }
+
+  const tsconfigPath = options.tsconfigPath ?? findTsconfig(fromDir);
+  const mapping = tsconfigPath ? readPathMapping(tsconfigPath) : undefined;
+  if (mapping) {
+    // Like TypeScript, prefer exact patterns, then the longest prefix.
+    const prefixLength = (pattern: string) =>
+      pattern.includes("*") ? pattern.indexOf("*") : Number.MAX_SAFE_INTEGER;
+    const patterns = Object.keys(mapping.paths).sort(
+      (a, b) => prefixLength(b) - prefixLength(a),
+    );
+    for (const pattern of patterns) {
+      const wildcard = matchPathPattern(pattern, specifier);
+      if (wildcard === null) {
+        continue;
+      }
+      for (const target of mapping.paths[pattern] ?? []) {
+        const resolved = resolveFile(
+          path.resolve(mapping.base, target.replace("*", wildcard)),
+        );
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    const fromBaseUrl = mapping.hasBaseUrl
+      ? resolveFile(path.resolve(mapping.base, specifier))
+      : undefined;
+    if (fromBaseUrl) {
+      return fromBaseUrl;
+    }
+  }
+
+  return resolvePackage(specifier, fromDir);
+}
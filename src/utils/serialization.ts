@@ -0,0 +1,171 @@
+import { createRequire } from "module";
+import type * as ts from "typescript";
+
+export interface SerializationPolicy {
+  /** Whether `Date` values may cross the boundary. */
+  allowDate: boolean;
+  /** Whether `Map` and `Set` values may cross the boundary. */
+  allowMapAndSet: boolean;
+}
+
+/**
+ * Built-in classes React serializes across the server/client boundary. `Date`,
+ * `Map` and `Set` are governed by the policy instead.
+ */
+const SERIALIZABLE_BUILTINS = new Set([
+  "Array",
+  "ReadonlyArray",
+  "Promise",
+  "FormData",
+  "ArrayBuffer",
+  "DataView",
+  "Blob",
+  "File",
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+]);
+
+/** Containers whose type arguments are checked as well. */
+const CONTAINERS = new Set([
+  "Array",
+  "ReadonlyArray",
+  "Promise",
+  "Map",
+  "ReadonlyMap",
+  "Set",
+  "ReadonlySet",
+]);
+
+let typescript: typeof ts | null | undefined;
+
+/**
+ * Loads the `typescript` package the first time a type-aware rule needs it.
+ * TypeScript is an optional peer dependency, so this returns `undefined` when
+ * it isn't installed.
+ */
+export function loadTypeScript(): typeof ts | undefined {
+  if (typescript === undefined) {
+    try {
+      typescript = createRequire(import.meta.url)("typescript") as typeof ts;
+    } catch {
+      typescript = null;
+    }
+  }
+  return typescript ?? undefined;
+}
+
+interface Problem {
+  reason: string;
+  /** Property path from the checked type to the offending value. */
+  path: string[];
+}
+
+/**
+ * Returns a function that explains why a type can't be serialized by React
+ * (e.g. "it contains a function at `options.onDone`"), or returns `undefined`
+ * when it can. `any` and `unknown` are trusted, since nothing can be said
+ * about them.
+ */
+export function createSerializationChecker(
+  tsModule: typeof ts,
+  checker: ts.TypeChecker,
+  policy: SerializationPolicy,
+): (type: ts.Type) => string | undefined {
+  const { TypeFlags, SymbolFlags, ObjectFlags } = tsModule;
+
+  const problem = (reason: string): Problem => ({ reason, path: [] });
+
+  function checkAll(
+    types: readonly ts.Type[],
+    seen: Set<ts.Type>,
+  ): Problem | undefined {
+    for (const type of types) {
+      const found = check(type, seen);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  function check(type: ts.Type, seen: Set<ts.Type>): Problem | undefined {
+    if (seen.has(type)) {
+      return undefined;
+    }
+    seen.add(type);
+
+    if (type.flags & (TypeFlags.Any | TypeFlags.Unknown)) {
+      return undefined;
+    }
+    if (type.flags & TypeFlags.ESSymbolLike) {
+      return problem("it contains a symbol");
+    }
+    if (type.isUnionOrIntersection()) {
+      return checkAll(type.types, seen);
+    }
+    if (!(type.flags & TypeFlags.Object)) {
+      // Primitives, literals, null, undefined and void.
+      return undefined;
+    }
+
+    if (type.getCallSignatures().length > 0) {
+      return problem("it contains a function");
+    }
+
+    const symbol = type.getSymbol();
+    const name = symbol?.getName() ?? "";
+    const isMapOrSet = /^(Readonly)?(Map|Set)$/.test(name);
+    if (name === "Date") {
+      return policy.allowDate ? undefined : problem("it contains a `Date`");
+    }
+    if (isMapOrSet && !policy.allowMapAndSet) {
+      return problem(`it contains a \`${name}\``);
+    }
+
+    if (CONTAINERS.has(name) || checker.isTupleType(type)) {
+      const typeArguments =
+        (type as ts.ObjectType).objectFlags & ObjectFlags.Reference
+          ? checker.getTypeArguments(type as ts.TypeReference)
+          : [];
+      return checkAll(typeArguments, seen);
+    }
+    if (SERIALIZABLE_BUILTINS.has(name)) {
+      return undefined;
+    }
+    if (symbol && symbol.flags & SymbolFlags.Class) {
+      return problem(`it contains an instance of the class \`${name}\``);
+    }
+
+    for (const property of type.getProperties()) {
+      const declaration =
+        property.valueDeclaration ?? property.declarations?.[0];
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getDeclaredTypeOfSymbol(property);
+      const found = check(propertyType, seen);
+      if (found) {
+        return { ...found, path: [property.getName(), ...found.path] };
+      }
+    }
+    return undefined;
+  }
+
+  return (type) => {
+    const found = check(type, new Set());
+    if (!found) {
+      return undefined;
+    }
+    return found.path.length > 0
+      ? `${found.reason} at \`${found.path.join(".")}\``
+      : found.reason;
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { ESLint } from "eslint";
+import { ESLint, Linter } from "eslint";
 import plugin from "../src/index.js";
 
 async function runWithBothRules(
@@ -61,3 +61,222 @@ describe("both rules working together", () => {
     expect(output).toBe(`"use client";\n\nexport const x = 1;`);
   });
 });
+
+describe("misplaced directives with require-use-directive-first", () => {
+  it("ends up with a single directive at the top", async () => {
+    const eslint = new ESLint({
+      fix: true,
+      overrideConfig: [
+        {
+          languageOptions: {
+            ecmaVersion: 2024,
+            sourceType: "module",
+            parserOptions: { ecmaFeatures: { jsx: true } },
+          },
+          plugins: {
+            "explicit-use-directives": plugin as unknown as ESLint.Plugin,
+          },
+          rules: {
+            "explicit-use-directives/require-use-directive-first": [
+              "error",
+              { directive: "use client" },
+            ],
+            "explicit-use-directives/no-misplaced-use-directive": "error",
+          },
+        },
+      ],
+    });
+    const input = `import x from "y";\n"use client";\nexport const A = () => <div>{x}</div>;`;
+    const [result] = await eslint.lintText(input, { filePath: "File.tsx" });
+    expect(result?.output).toBe(
+      `"use client";\nimport x from "y";\nexport const A = () => <div>{x}</div>;`,
+    );
+  });
+});
+
+describe("no-conflicting-use-directives with require-use-directive-first", () => {
+  it("doesn't add a directive that conflicts with \"use cache\"", async () => {
+    const eslint = new ESLint({
+      fix: true,
+      overrideConfig: [
+        {
+          languageOptions: { ecmaVersion: 2024, sourceType: "module" },
+          plugins: {
+            "explicit-use-directives": plugin as unknown as ESLint.Plugin,
+          },
+          rules: {
+            "explicit-use-directives/require-use-directive-first": [
+              "error",
+              { directive: "use client" },
+            ],
+            "explicit-use-directives/no-conflicting-use-directives": "error",
+          },
+        },
+      ],
+    });
+    const input = `"use cache";\nexport async function getData() { return 1; }`;
+    const [result] = await eslint.lintText(input, { filePath: "File.tsx" });
+    expect(result?.output).toBeUndefined();
+    expect(result?.messages.map((m) => m.messageId)).toEqual([
+      "clientWithCache",
+    ]);
+  });
+});
+
+describe("use-directive-style with require-use-directive-first", () => {
+  it("inserts directives in the configured style without conflicts", async () => {
+    const style = { quotes: "single", semi: false } as const;
+    const eslint = new ESLint({
+      fix: true,
+      overrideConfig: [
+        {
+          languageOptions: {
+            ecmaVersion: 2024,
+            sourceType: "module",
+            parserOptions: { ecmaFeatures: { jsx: true } },
+          },
+          plugins: {
+            "explicit-use-directives": plugin as unknown as ESLint.Plugin,
+          },
+          rules: {
+            "explicit-use-directives/require-use-directive-first": [
+              "error",
+              { directive: "use client", ...style },
+            ],
+            "explicit-use-directives/use-directive-style": ["error", style],
+            "explicit-use-directives/empty-line-after-use-directive": [
+              "error",
+              "always",
+            ],
+          },
+        },
+      ],
+    });
+    const input = `import x from 'x'\nexport const A = () => <div>{x}</div>`;
+    const [result] = await eslint.lintText(input, { filePath: "File.tsx" });
+    expect(result?.output).toBe(
+      `'use client'\n\nimport x from 'x'\nexport const A = () => <div>{x}</div>`,
+    );
+    expect(
+      result?.messages.filter((m) =>
+        m.ruleId?.startsWith("explicit-use-directives/"),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("nextjs-app-router config", () => {
+  const eslint = new ESLint({
+    fix: true,
+    overrideConfig: [
+      plugin.configs!["nextjs-app-router"] as Linter.Config,
+      {
+        languageOptions: {
+          ecmaVersion: 2024,
+          sourceType: "module",
+          parserOptions: { ecmaFeatures: { jsx: true } },
+        },
+      },
+    ],
+  });
+
+  async function lint(code: string, filePath: string) {
+    const [result] = await eslint.lintText(code, { filePath });
+    return {
+      output: result?.output ?? code,
+      messages:
+        result?.messages.filter((m) =>
+          m.ruleId?.startsWith("explicit-use-directives/"),
+        ) ?? [],
+    };
+  }
+
+  it("leaves server component layouts and pages alone", async () => {
+    const input = `export const metadata = { title: "Home" };\nexport default function Page(){ return <main/> }`;
+    const result = await lint(input, "app/(site)/page.tsx");
+    expect(result.output).toBe(input);
+    expect(result.messages).toEqual([]);
+  });
+
+  it("turns error boundaries into client components", async () => {
+    const input = `export default function Error({ reset }){ return <button onClick={reset}/> }`;
+    const result = await lint(input, "app/dashboard/error.tsx");
+    expect(result.output).toBe(`"use client";\n\n${input}`);
+    expect(result.messages).toEqual([]);
+  });
+
+  it("only suggests a directive for static components", async () => {
+    const input = `export const Homepage = () => <main/>;`;
+    const result = await lint(input, "app/components/homepage.tsx");
+    expect(result.output).toBe(input);
+    expect(result.messages).toMatchObject([
+      {
+        messageId: "addFallbackDirective",
+        suggestions: [
+          { desc: 'Insert "use client".' },
+          { desc: 'Insert "use server".' },
+        ],
+      },
+    ]);
+  });
+
+  it("suggests the inferred directive for client components", async () => {
+    const input = `export const Toggle = () => <button onClick={() => {}}/>;`;
+    const result = await lint(input, "app/components/toggle.tsx");
+    expect(result.output).toBe(input);
+    expect(result.messages).toMatchObject([
+      {
+        messageId: "addInferredDirective",
+        suggestions: [
+          { desc: 'Insert "use client".' },
+          { desc: 'Insert "use server".' },
+        ],
+      },
+      { messageId: "missingUseClient" },
+    ]);
+  });
+
+  it("works in projects checked out in a directory named app", () => {
+    const linter = new Linter({ cwd: "/app" });
+    const messages = linter.verify(
+      `export default function Page(){ return <main/> }`,
+      [
+        { files: ["**/*.tsx"] },
+        plugin.configs!["nextjs-app-router"] as Linter.Config,
+        { languageOptions: { parserOptions: { ecmaFeatures: { jsx: true } } } },
+      ],
+      "/app/components/page.tsx",
+    );
+    expect(messages.map((m) => m.ruleId)).toEqual([
+      "explicit-use-directives/require-use-directive-first",
+    ]);
+  });
+});
+
+describe("use-directive-order with empty-line-after-use-directive", () => {
+  it("sorts the prologue and keeps the gap normalized", async () => {
+    const eslint = new ESLint({
+      fix: true,
+      overrideConfig: [
+        {
+          languageOptions: { ecmaVersion: 2024, sourceType: "module" },
+          plugins: {
+            "explicit-use-directives": plugin as unknown as ESLint.Plugin,
+          },
+          rules: {
+            "explicit-use-directives/use-directive-order": "error",
+            "explicit-use-directives/empty-line-after-use-directive": [
+              "error",
+              { after: "always", between: "never" },
+            ],
+          },
+        },
+      ],
+    });
+    const input = `"use client"; // boundary\n\n"use strict";\nimport x from "x";`;
+    const [result] = await eslint.lintText(input, { filePath: "File.tsx" });
+    expect(result?.output).toBe(
+      `"use strict";\n"use client"; // boundary\n\nimport x from "x";`,
+    );
+  });
+});
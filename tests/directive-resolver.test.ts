@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  directiveFingerprint,
+  resolveModuleDirectives,
+  scanDirectivePrologue,
+} from "../src/utils/directive-resolver.js";
+
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/import-boundaries",
+);
+const fromFile = path.join(fixtures, "src/page.jsx");
+
+describe("scanDirectivePrologue", () => {
+  it("reads directives after a BOM, shebang and comments", () => {
+    expect(
+      scanDirectivePrologue(
+        `\uFEFF#!/usr/bin/env node\n/** License */\n// note\n'use client'\n"use strict"; /* x */ "use no memo";\nimport x from "x";`,
+      ),
+    ).toEqual(["use client", "use strict", "use no memo"]);
+  });
+
+  it("stops at strings that are part of a larger statement", () => {
+    expect(scanDirectivePrologue(`"use client" + suffix;`)).toEqual([]);
+    expect(scanDirectivePrologue(`"use client"\n.trim();`)).toEqual([]);
+    expect(scanDirectivePrologue(`"a";\n"use client"\n("b");`)).toEqual([
+      "a",
+    ]);
+    expect(scanDirectivePrologue(`"use client"\n++count;`)).toEqual([
+      "use client",
+    ]);
+  });
+
+  it("stops at the first statement that isn't a directive", () => {
+    expect(scanDirectivePrologue(`const a = 1;\n"use client";`)).toEqual([]);
+    expect(scanDirectivePrologue(``)).toEqual([]);
+    expect(scanDirectivePrologue(`"use client`)).toEqual([]);
+  });
+
+  it("keeps the raw text between the quotes", () => {
+    expect(scanDirectivePrologue(`"use\\x20client";`)).toEqual([
+      "use\\x20client",
+    ]);
+  });
+});
+
+describe("resolveModuleDirectives", () => {
+  it("resolves relative paths and tsconfig paths", () => {
+    expect(resolveModuleDirectives("./actions", fromFile)).toEqual({
+      path: path.join(fixtures, "src/actions.js"),
+      directives: ["use server"],
+    });
+    expect(
+      resolveModuleDirectives("@/lib/format", fromFile)?.directives,
+    ).toEqual([]);
+  });
+
+  it("resolves packages through their exports", () => {
+    const pkg = path.join(fixtures, "node_modules/ui-kit/lib");
+    expect(resolveModuleDirectives("ui-kit", fromFile)).toEqual({
+      path: path.join(pkg, "index.js"),
+      directives: ["use client"],
+    });
+    expect(resolveModuleDirectives("ui-kit/icons/star", fromFile)?.path).toBe(
+      path.join(pkg, "icons/star.js"),
+    );
+    // Subpaths that the package doesn't export
+    expect(resolveModuleDirectives("ui-kit/lib/index.js", fromFile)).toBe(
+      undefined,
+    );
+    expect(resolveModuleDirectives("fs", fromFile)).toBe(undefined);
+  });
+});
+
+describe("directiveFingerprint", () => {
+  const root = mkdtempSync(path.join(os.tmpdir(), "use-directives-"));
+  afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+  it("changes when a directive or a server action module changes", () => {
+    writeFileSync(path.join(root, "a.tsx"), `"use client";\nexport {};\n`);
+    writeFileSync(path.join(root, "b.ts"), `export const b = 1;\n`);
+    const initial = directiveFingerprint(root);
+    expect(directiveFingerprint(root)).toBe(initial);
+
+    // Files without directives don't affect it.
+    writeFileSync(path.join(root, "b.ts"), `export const b = 22;\n`);
+    expect(directiveFingerprint(root)).toBe(initial);
+
+    writeFileSync(path.join(root, "a.tsx"), `"use server";\n\nexport {};\n`);
+    const server = directiveFingerprint(root);
+    expect(server).not.toBe(initial);
+
+    writeFileSync(
+      path.join(root, "a.tsx"),
+      `"use server";\n\nexport const LIMIT = 1;\n`,
+    );
+    expect(directiveFingerprint(root)).not.toBe(server);
+  });
+});
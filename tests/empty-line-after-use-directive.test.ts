@@ -32,6 +32,38 @@ describe("explicit-use-directives/empty-line-after-use-directive", () => {
         code: `"use client";\n"use something";\n\nconst A = 1;`,
         options: ["always"],
       },
+      // the blank line may be followed by a comment
+      {
+        code: `"use client";\n\n// eslint-disable-next-line\nimport x from "x";`,
+        options: ["always"],
+      },
+      // trailing comments on the directive line belong to the directive
+      {
+        code: `"use client"; // needs hooks\n\nimport x from "x";`,
+        options: ["always"],
+      },
+      // countAttachedComments: false keeps comments below the directive with it
+      {
+        code: `"use client";\n// needs hooks\n\nimport x from "x";`,
+        options: ["always", { countAttachedComments: false }],
+      },
+      {
+        code: `"use client";\n/**\n * Docs.\n */\nimport x from "x";`,
+        options: ["never", { countAttachedComments: false }],
+      },
+      // object form: between and beforeFirst default to "any"
+      {
+        code: `// License\n\n"use client";\n\n"use strict";\n\nconst A = 1;`,
+        options: [{ after: "always" }],
+      },
+      {
+        code: `/* License */\n"use client";\n"use strict";\nconst A = 1;`,
+        options: [{ after: "never", between: "never", beforeFirst: "never" }],
+      },
+      {
+        code: `// License\n\n"use client";\n\n"use strict";\n\nconst A = 1;`,
+        options: [{ between: "always", beforeFirst: "always" }],
+      },
     ],
     invalid: [
       // always: missing blank line
@@ -55,6 +87,20 @@ describe("explicit-use-directives/empty-line-after-use-directive", () => {
         errors: [{ messageId: "expectedBlank" }],
         options: ["always"],
       },
+      // always: CRLF files get CRLF line breaks
+      {
+        code: `"use client";\r\nimport x from "x";\r\n`,
+        output: `"use client";\r\n\r\nimport x from "x";\r\n`,
+        errors: [{ messageId: "expectedBlank" }],
+        options: ["always"],
+      },
+      // never: CRLF files keep a CRLF line break
+      {
+        code: `"use client";\r\n\r\n\r\nconst x = 1;`,
+        output: `"use client";\r\nconst x = 1;`,
+        errors: [{ messageId: "unexpectedBlank" }],
+        options: ["never"],
+      },
       // never: remove blank line
       {
         code: `"use client";\n\nconst x = 1;`,
@@ -62,6 +108,89 @@ describe("explicit-use-directives/empty-line-after-use-directive", () => {
         errors: [{ messageId: "unexpectedBlank" }],
         options: ["never"],
       },
+      // comments between the directive and the code are kept
+      {
+        code: `"use client";\n// eslint-disable-next-line\nimport x from "x";`,
+        output: `"use client";\n\n// eslint-disable-next-line\nimport x from "x";`,
+        errors: [{ messageId: "expectedBlank" }],
+        options: ["always"],
+      },
+      {
+        code: `"use client";\n\n\n/** Docs. */\nexport const x = 1;`,
+        output: `"use client";\n/** Docs. */\nexport const x = 1;`,
+        errors: [{ messageId: "unexpectedBlank" }],
+        options: ["never"],
+      },
+      // countAttachedComments: false measures after the directive's comments
+      {
+        code: `"use client";\n// needs hooks\nimport x from "x";`,
+        output: `"use client";\n\n// needs hooks\nimport x from "x";`,
+        errors: [{ messageId: "expectedBlank" }],
+        options: ["always", { countAttachedComments: false }],
+      },
+      {
+        code: `"use client";\n// needs hooks\n\n\nimport x from "x";`,
+        output: `"use client";\n// needs hooks\n\nimport x from "x";`,
+        errors: [{ messageId: "expectedBlank" }],
+        options: ["always", { countAttachedComments: false }],
+      },
+      // leading whitespace has its own message
+      {
+        code: `\n\n"use client";\n\nconst x = 1;`,
+        output: `"use client";\n\nconst x = 1;`,
+        errors: [{ messageId: "unexpectedLeadingWhitespace" }],
+      },
+      {
+        code: `\n// License\n"use client";\n\nconst x = 1;`,
+        output: `// License\n"use client";\n\nconst x = 1;`,
+        errors: [{ messageId: "unexpectedLeadingWhitespace" }],
+      },
+      // between
+      {
+        code: `"use client";\n\n\n"use strict";\nconst x = 1;`,
+        output: `"use client";\n"use strict";\nconst x = 1;`,
+        errors: [{ messageId: "unexpectedBlankBetween" }],
+        options: [{ after: "never", between: "never" }],
+      },
+      {
+        code: `"use client";\n"use strict"; // strict\n\nconst x = 1;`,
+        output: `"use client";\n\n"use strict"; // strict\n\nconst x = 1;`,
+        errors: [{ messageId: "expectedBlankBetween" }],
+        options: [{ between: "always" }],
+      },
+      // beforeFirst
+      {
+        code: `/**\n * License\n */\n"use client";\n\nconst x = 1;`,
+        output: `/**\n * License\n */\n\n"use client";\n\nconst x = 1;`,
+        errors: [{ messageId: "expectedBlankBeforeFirst" }],
+        options: [{ beforeFirst: "always" }],
+      },
+      {
+        code: `// License\n\n\n"use client";\nconst x = 1;`,
+        output: `// License\n"use client";\nconst x = 1;`,
+        errors: [{ messageId: "unexpectedBlankBeforeFirst" }],
+        options: [{ after: "never", beforeFirst: "never" }],
+      },
+      // each setting reports separately
+      {
+        code: `// License\n"use client";\n"use strict";\nconst x = 1;`,
+        output: `// License\n\n"use client";\n\n"use strict";\n\nconst x = 1;`,
+        errors: [
+          { messageId: "expectedBlankBeforeFirst" },
+          { messageId: "expectedBlankBetween" },
+          { messageId: "expectedBlank" },
+        ],
+        options: [
+          { after: "always", between: "always", beforeFirst: "always" },
+        ],
+      },
+      // countAttachedComments works in the object form too
+      {
+        code: `"use client";\n// needs hooks\n\n\nimport x from "x";`,
+        output: `"use client";\n// needs hooks\n\nimport x from "x";`,
+        errors: [{ messageId: "expectedBlank" }],
+        options: [{ countAttachedComments: false }],
+      },
     ],
   });
 
@@ -0,0 +1,9 @@
+"use server";
+
+export async function save() {}
+
+export const remove = async () => {};
+
+export const LIMIT = 10;
+
+export default async function submit() {}
@@ -0,0 +1,3 @@
+export function Card({ children }) {
+  return <div>{children}</div>;
+}
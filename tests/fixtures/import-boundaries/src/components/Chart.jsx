@@ -0,0 +1,5 @@
+"use client";
+
+export function Chart({ data }) {
+  return <canvas data-points={data?.length} />;
+}
@@ -0,0 +1,9 @@
+"use client";
+
+export default function Counter({ onChange }) {
+  return <button onClick={() => onChange?.(1)}>+</button>;
+}
+
+export function Chart() {
+  return <canvas />;
+}
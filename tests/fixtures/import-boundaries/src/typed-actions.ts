@@ -0,0 +1,9 @@
+"use server";
+
+export type SaveResult = { ok: boolean };
+
+export async function save(): Promise<SaveResult> {
+  return { ok: true };
+}
+
+export const MODES = ["draft", "published"] as const;
@@ -0,0 +1,7 @@
+import { useState } from "react";
+import Chart from "../components/Chart";
+
+export default function Dashboard() {
+  const [range] = useState("week");
+  return <Chart range={range} />;
+}
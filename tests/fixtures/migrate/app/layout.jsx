@@ -0,0 +1,4 @@
+export default async function Layout({ children }) {
+  const user = await fetch("/api/user");
+  return <main data-user={user.status}>{children}</main>;
+}
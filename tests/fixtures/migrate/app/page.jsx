@@ -0,0 +1,6 @@
+import Dashboard from "./Dashboard";
+import { save } from "./actions";
+
+export default function Page() {
+  return <Dashboard save={save} />;
+}
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+export function Preview() {
+  return <button onClick={() => {}} />;
+}
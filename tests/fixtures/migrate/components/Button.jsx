@@ -0,0 +1,7 @@
+"use client";
+
+import { button } from "./styles";
+
+export function Button() {
+  return <button className={button} />;
+}
@@ -0,0 +1,5 @@
+import { load } from "./fetchers";
+
+export default function Chart({ range }) {
+  return <canvas data-range={range} data-loader={load.name} />;
+}
@@ -0,0 +1,7 @@
+"use client";
+
+import { Button } from "../components/Button";
+
+export default function Counter() {
+  return <Button />;
+}
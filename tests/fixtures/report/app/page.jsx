@@ -0,0 +1,7 @@
+import Counter from "./Counter";
+import { save } from "./actions";
+// import Legacy from "../lib/legacy";
+
+export default function Page(props) {
+  return <Counter onSave={save} {...props} />;
+}
@@ -0,0 +1,13 @@
+import { lazy } from "react";
+import { Slider } from "widgets";
+
+const LazyButton = lazy(() => import("./Button"));
+
+export function Layout() {
+  return (
+    <>
+      <Slider />
+      <LazyButton />
+    </>
+  );
+}
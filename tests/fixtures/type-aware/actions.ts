@@ -0,0 +1,2 @@
+// Placeholder for the type-aware rule tests; RuleTester supplies the code.
+export {};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { compileGlob, expandBraces, matchGlobs } from "../src/utils/glob.js";
+
+describe("compileGlob", () => {
+  it("matches stars and question marks within path segments", () => {
+    expect(compileGlob("src/*.ts").test("src/a.ts")).toBe(true);
+    expect(compileGlob("src/*.ts").test("src/a/b.ts")).toBe(false);
+    expect(compileGlob("src/?.ts").test("src/a.ts")).toBe(true);
+    expect(compileGlob("src/**/*.ts").test("src/a.ts")).toBe(true);
+    expect(compileGlob("src/**/*.ts").test("src/a/b/c.ts")).toBe(true);
+  });
+
+  it("matches whole directories with **/", () => {
+    expect(compileGlob("**/page.tsx").test("page.tsx")).toBe(true);
+    expect(compileGlob("**/page.tsx").test("app/blog/page.tsx")).toBe(true);
+    expect(compileGlob("**/page.tsx").test("app/homepage.tsx")).toBe(false);
+    expect(compileGlob("app/**/page.tsx").test("app/page.tsx")).toBe(true);
+    expect(compileGlob("**/app/**").test("webapp/page.tsx")).toBe(false);
+    expect(compileGlob("app/**").test("app/a/b.tsx")).toBe(true);
+    expect(compileGlob("app/**.tsx").test("app/a/b.tsx")).toBe(true);
+  });
+
+  it("supports braces, including nested ones", () => {
+    expect(expandBraces("*.{test,spec}.{ts,tsx}")).toEqual([
+      "*.test.ts",
+      "*.test.tsx",
+      "*.spec.ts",
+      "*.spec.tsx",
+    ]);
+    expect(expandBraces("a/{b,c/{d,e}}")).toEqual(["a/b", "a/c/d", "a/c/e"]);
+    expect(expandBraces("{a}")).toEqual(["{a}"]);
+    expect(compileGlob("**/*.{test,spec}.tsx").test("src/x.spec.tsx")).toBe(
+      true,
+    );
+  });
+
+  it("supports character classes", () => {
+    expect(compileGlob("v[0-9].ts").test("v2.ts")).toBe(true);
+    expect(compileGlob("v[!0-9].ts").test("v2.ts")).toBe(false);
+    expect(compileGlob("v[!0-9].ts").test("vx.ts")).toBe(true);
+    expect(compileGlob("a[/]b").test("a/b")).toBe(false);
+    expect(compileGlob("a[b").test("a[b")).toBe(true);
+  });
+
+  it("treats escaped and regexp characters literally", () => {
+    expect(compileGlob("\\*.ts").test("*.ts")).toBe(true);
+    expect(compileGlob("\\*.ts").test("a.ts")).toBe(false);
+    expect(compileGlob("(app)/+page.ts").test("(app)/+page.ts")).toBe(true);
+  });
+
+  it("caches compiled patterns", () => {
+    expect(compileGlob("src/**")).toBe(compileGlob("src/**"));
+  });
+});
+
+describe("matchGlobs", () => {
+  const cwd = "/repo";
+
+  it("matches relative patterns against the cwd-relative path", () => {
+    expect(matchGlobs("/repo/src/a.tsx", ["src/**"], cwd)).toBe("src/**");
+    expect(matchGlobs("/repo/src/a.tsx", ["./src/**"], cwd)).toBe("./src/**");
+    expect(matchGlobs("/other/src/a.tsx", ["src/**"], cwd)).toBe(undefined);
+  });
+
+  it("matches absolute and match-anywhere patterns against the full path", () => {
+    expect(matchGlobs("/repo/src/a.tsx", ["/repo/src/*"], cwd)).toBe(
+      "/repo/src/*",
+    );
+    expect(matchGlobs("/other/src/a.tsx", ["**/src/**"], cwd)).toBe(
+      "**/src/**",
+    );
+  });
+
+  it("ignores the directories above the cwd", () => {
+    expect(matchGlobs("/app/src/a.tsx", ["**/app/**"], "/app")).toBe(
+      undefined,
+    );
+    expect(matchGlobs("/app/app/page.tsx", ["**/app/**"], "/app")).toBe(
+      "**/app/**",
+    );
+  });
+
+  it("lets the last matching pattern win", () => {
+    const patterns = ["src/**", "!src/keep/**", "src/keep/old/**"];
+    expect(matchGlobs("/repo/src/a.tsx", patterns, cwd)).toBe("src/**");
+    expect(matchGlobs("/repo/src/keep/a.tsx", patterns, cwd)).toBe(undefined);
+    expect(matchGlobs("/repo/src/keep/old/a.tsx", patterns, cwd)).toBe(
+      "src/keep/old/**",
+    );
+  });
+});
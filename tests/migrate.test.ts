@@ -0,0 +1,250 @@
+import {
+  copyFileSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+} from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "../src/cli/diff.js";
+import { formatReviewReport, migrate } from "../src/cli/migrate.js";
+import { run } from "../src/cli/run.js";
+
+const fixture = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "migrate",
+);
+
+function copyDir(from: string, to: string) {
+  mkdirSync(to, { recursive: true });
+  for (const entry of readdirSync(from, { withFileTypes: true })) {
+    const source = path.join(from, entry.name);
+    const target = path.join(to, entry.name);
+    if (entry.isDirectory()) {
+      copyDir(source, target);
+    } else {
+      copyFileSync(source, target);
+    }
+  }
+}
+
+const options = { clientEntries: ["widgets/Entry.jsx"], dryRun: true };
+
+describe("createUnifiedDiff", () => {
+  it("shows an insertion with up to three lines of context", () => {
+    const before = "1\n2\n3\n4\n";
+    const after = "1\nnew\n2\n3\n4\n";
+    expect(createUnifiedDiff("a.js", before, after)).toBe(
+      [
+        "--- a/a.js",
+        "+++ b/a.js",
+        "@@ -1,4 +1,5 @@",
+        " 1",
+        "+new",
+        " 2",
+        " 3",
+        " 4",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("marks a missing final newline", () => {
+    expect(createUnifiedDiff("a.js", "x", "y")).toBe(
+      [
+        "--- a/a.js",
+        "+++ b/a.js",
+        "@@ -1,1 +1,1 @@",
+        "-x",
+        "\\ No newline at end of file",
+        "+y",
+        "\\ No newline at end of file",
+        "",
+      ].join("\n"),
+    );
+    expect(createUnifiedDiff("a.js", "same", "same")).toBe("");
+  });
+});
+
+describe("migrate", () => {
+  it("decides from client features, exports and the import graph", async () => {
+    const { decisions } = await migrate(fixture, options);
+    expect(decisions).toEqual([
+      {
+        file: "app/Dashboard.jsx",
+        directive: "use client",
+        reason: "the file calls React hook `useState`",
+        confident: true,
+      },
+      {
+        file: "app/actions.jsx",
+        directive: "use server",
+        reason: "the file only exports async functions",
+        confident: true,
+      },
+      {
+        file: "app/layout.jsx",
+        directive: "use server",
+        reason:
+          "no client-only APIs, server-only exports or client importers found",
+        confident: false,
+      },
+      {
+        file: "app/page.jsx",
+        directive: "use server",
+        reason:
+          "no client-only APIs, server-only exports or client importers found",
+        confident: false,
+      },
+      {
+        file: "bin/preview.jsx",
+        directive: "use client",
+        reason: "the file passes JSX event handler `onClick`",
+        confident: true,
+      },
+      {
+        file: "components/Chart.jsx",
+        directive: "use client",
+        reason: "is imported from client module `app/Dashboard.jsx`",
+        confident: true,
+      },
+      {
+        file: "components/fetchers.jsx",
+        directive: "use server",
+        reason:
+          "the file only exports async functions, but is imported from client module `components/Chart.jsx`",
+        confident: false,
+      },
+      {
+        file: "components/styles.jsx",
+        directive: "use client",
+        reason:
+          "is imported from client module `components/Button.jsx`, but exports no components",
+        confident: false,
+      },
+      {
+        file: "widgets/Entry.jsx",
+        directive: "use client",
+        reason: 'matches client entry "widgets/Entry.jsx"',
+        confident: true,
+      },
+    ]);
+  });
+
+  it("diffs the confident files only, keeping shebangs first", async () => {
+    const { diffs } = await migrate(fixture, options);
+    expect(diffs).toHaveLength(5);
+    expect(diffs.some((diff) => diff.includes("page.jsx"))).toBe(false);
+    expect(diffs).toContainEqual(
+      [
+        "--- a/bin/preview.jsx",
+        "+++ b/bin/preview.jsx",
+        "@@ -1,4 +1,5 @@",
+        " #!/usr/bin/env node",
+        '+"use client";',
+        " export function Preview() {",
+        "   return <button onClick={() => {}} />;",
+        " }",
+        "",
+      ].join("\n"),
+    );
+    expect(
+      readFileSync(path.join(fixture, "bin/preview.jsx"), "utf8"),
+    ).not.toContain("use client");
+  });
+
+  it("lists low-confidence files for review", async () => {
+    const result = await migrate(fixture, options);
+    const report = formatReviewReport(result, "markdown");
+    expect(report).toContain(
+      '| `app/page.jsx` | "use server" | no client-only APIs, server-only exports or client importers found |',
+    );
+    expect(report).not.toContain("app/actions.jsx");
+  });
+});
+
+describe("migrate command", () => {
+  it("writes the confident changes and the review report", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "explicit-use-migrate-"));
+    try {
+      copyDir(fixture, dir);
+      let stdout = "";
+      const code = await run(
+        [
+          "migrate",
+          "--client-entry",
+          "widgets/Entry.jsx",
+          "--review-report",
+          "review.json",
+        ],
+        { stdout: (text) => (stdout += text), stderr: () => {}, cwd: dir },
+      );
+      expect(code).toBe(0);
+      expect(stdout).toContain(
+        'Added directives to 5 files ("use client": 4, "use server": 1).',
+      );
+      expect(stdout).toContain("4 low-confidence files left unchanged:");
+      expect(
+        readFileSync(path.join(dir, "components/Chart.jsx"), "utf8"),
+      ).toMatch(/^"use client";\nimport \{ load \}/);
+      expect(readFileSync(path.join(dir, "app/page.jsx"), "utf8")).toBe(
+        readFileSync(path.join(fixture, "app/page.jsx"), "utf8"),
+      );
+      const review = JSON.parse(
+        readFileSync(path.join(dir, "review.json"), "utf8"),
+      ) as { file: string }[];
+      expect(review.map((entry) => entry.file)).toEqual([
+        "app/layout.jsx",
+        "app/page.jsx",
+        "components/fetchers.jsx",
+        "components/styles.jsx",
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("prints diffs on stdout in a dry run", async () => {
+    let stdout = "";
+    let stderr = "";
+    const code = await run(
+      ["migrate", fixture, "--dry-run", "--default", "use client"],
+      {
+        stdout: (text) => (stdout += text),
+        stderr: (text) => (stderr += text),
+        cwd: process.cwd(),
+      },
+    );
+    expect(code).toBe(0);
+    expect(stdout).toContain("+++ b/app/Dashboard.jsx");
+    expect(stderr).toContain("Would add directives to 4 files");
+  });
+
+  it("works in projects without an ESLint config", async () => {
+    // Outside the repository, so no parent directory has a config either.
+    const dir = mkdtempSync(path.join(tmpdir(), "explicit-use-migrate-"));
+    try {
+      copyDir(path.join(fixture, "../migrate-no-config"), dir);
+      let stdout = "";
+      const code = await run(["migrate", "--dry-run"], {
+        stdout: (text) => (stdout += text),
+        stderr: () => {},
+        cwd: dir,
+      });
+      expect(code).toBe(0);
+      expect(stdout).toContain(
+        '+++ b/Counter.jsx\n@@ -1,3 +1,4 @@\n+"use client";',
+      );
+      expect(stdout).toContain(
+        '+++ b/actions.jsx\n@@ -1,3 +1,4 @@\n+"use server";',
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { Linter, RuleTester } from "eslint";
+import rule from "../src/rules/nextjs-app-router-conventions.js";
+
+describe("explicit-use-directives/nextjs-app-router-conventions", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("nextjs-app-router-conventions", rule, {
+    valid: [
+      {
+        filename: "/repo/app/dashboard/error.tsx",
+        code: `"use client";\nexport default function Error(){ return <p/> }`,
+      },
+      // only special files inside an app directory are error boundaries
+      {
+        filename: "/repo/components/error.tsx",
+        code: `export default function Error(){ return <p/> }`,
+      },
+      {
+        filename: "/repo/app/api/users/route.ts",
+        code: `export async function GET(){ return Response.json([]) }`,
+      },
+      {
+        filename: "/repo/src/middleware.ts",
+        code: `export function middleware(){}`,
+      },
+      // server component layouts may export metadata
+      {
+        filename: "/repo/app/layout.tsx",
+        code: `export const metadata = { title: "App" };\nexport default function Layout({ children }){ return children }`,
+      },
+      // client pages are fine as long as they don't export metadata
+      {
+        filename: "/repo/app/page.tsx",
+        code: `"use client";\nexport default function Page(){ return <main/> }`,
+      },
+      // other files may export something called metadata
+      {
+        filename: "/repo/app/components/card.tsx",
+        code: `"use client";\nexport const metadata = {};`,
+      },
+      {
+        filename: "<input>",
+        code: `export default function Error(){ return <p/> }`,
+      },
+    ],
+    invalid: [
+      {
+        filename: "/repo/app/dashboard/error.tsx",
+        code: `export default function Error(){ return <p/> }`,
+        output: `"use client";\nexport default function Error(){ return <p/> }`,
+        errors: [
+          { messageId: "requireUseClient", data: { file: "error.tsx" } },
+        ],
+      },
+      // no autofix when it would only create a conflicting prologue
+      {
+        filename: "/repo/app/global-error.jsx",
+        code: `"use server";\nexport default function GlobalError(){ return <html/> }`,
+        output: null,
+        errors: [
+          {
+            messageId: "requireUseClient",
+            data: { file: "global-error.jsx" },
+          },
+        ],
+      },
+      {
+        filename: "/repo/app/api/users/route.ts",
+        code: `"use client";\nexport async function GET(){}`,
+        errors: [
+          {
+            messageId: "noUseClient",
+            data: { file: "route.ts", kind: "route handler" },
+            suggestions: [
+              {
+                messageId: "removeUseClient",
+                output: `export async function GET(){}`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        filename: "/repo/middleware.ts",
+        code: `"use client";\nexport function middleware(){}`,
+        errors: [
+          {
+            messageId: "noUseClient",
+            data: { file: "middleware.ts", kind: "middleware" },
+            suggestions: [
+              {
+                messageId: "removeUseClient",
+                output: `export function middleware(){}`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        filename: "/repo/app/blog/layout.tsx",
+        code: `"use client";\nexport const metadata = { title: "Blog" };\nexport async function generateMetadata(){ return {} }\nexport default function Layout({ children }){ return children }`,
+        errors: [
+          {
+            messageId: "clientMetadataExport",
+            data: { name: "metadata", file: "layout.tsx" },
+          },
+          {
+            messageId: "clientMetadataExport",
+            data: { name: "generateMetadata", file: "layout.tsx" },
+          },
+        ],
+      },
+      {
+        filename: "/repo/app/page.js",
+        code: `"use client";\nconst metadata = {};\nexport { metadata };\nexport default function Page(){ return null }`,
+        errors: [
+          {
+            messageId: "clientMetadataExport",
+            data: { name: "metadata", file: "page.js" },
+          },
+        ],
+      },
+    ],
+  });
+
+  it("only looks for app directories below the working directory", () => {
+    const linter = new Linter({ cwd: "/app" });
+    const lint = (filename: string) =>
+      linter.verify(
+        "export default function Error(){ return null }",
+        {
+          files: ["**/*.tsx"],
+          plugins: { next: { rules: { conventions: rule } } },
+          rules: { "next/conventions": "error" },
+        },
+        filename,
+      );
+    expect(lint("/app/components/error.tsx")).toEqual([]);
+    expect(lint("/app/app/error.tsx")).toMatchObject([
+      { messageId: "requireUseClient" },
+    ]);
+  });
+
+  // Vitest needs at least one "it" inside "describe" to show up green,
+  // even though RuleTester already throws on failures.
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {
+    // If we get here, RuleTester did not throw.
+  });
+});
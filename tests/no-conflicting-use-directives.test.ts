@@ -0,0 +1,93 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/no-conflicting-use-directives.js";
+
+describe("explicit-use-directives/no-conflicting-use-directives", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+    },
+  });
+
+  tester.run("no-conflicting-use-directives", rule, {
+    valid: [
+      { code: `"use client";\nconst a = 1;` },
+      // directives from different groups can be combined
+      { code: `"use strict";\n"use client";\nconst a = 1;` },
+      // custom groups replace the default
+      {
+        code: `"use client";\n"use server";`,
+        options: [{ groups: [["use dom", "use native"]] }],
+      },
+      // strings after the prologue are not directives
+      { code: `"use client";\nfoo();\n"use server";` },
+      // "use cache" is fine in server code
+      { code: `"use server";\n"use cache";\nconst a = 1;` },
+    ],
+    invalid: [
+      // "use cache" can't be combined with "use client"
+      {
+        code: `"use client";\n"use cache";\n"use cache: private";\nconst a = 1;`,
+        errors: [
+          {
+            messageId: "cacheRequiresServerComponent",
+            data: { directive: "use cache" },
+          },
+          {
+            messageId: "cacheRequiresServerComponent",
+            data: { directive: "use cache: private" },
+          },
+        ],
+      },
+      // conflicting directives are reported without a fix
+      {
+        code: `"use client";\n"use server";\nconst a = 1;`,
+        output: null,
+        errors: [
+          {
+            messageId: "conflictingDirectives",
+            data: { directive: "use server", other: "use client" },
+          },
+        ],
+      },
+      // custom groups
+      {
+        code: `'use dom';\n'use strict';\n'use native';`,
+        options: [{ groups: [["use dom", "use native"]] }],
+        errors: [
+          {
+            messageId: "conflictingDirectives",
+            data: { directive: "use native", other: "use dom" },
+          },
+        ],
+      },
+      // duplicates are removed with their line, keeping the gap after them
+      {
+        code: `"use client";\n"use client";\n\nconst a = 1;`,
+        output: `"use client";\n\nconst a = 1;`,
+        errors: [
+          {
+            messageId: "duplicateDirective",
+            data: { directive: "use client" },
+          },
+        ],
+      },
+      // comments between the directives stay
+      {
+        code: `"use client";\n// keep me\n"use client";\n\nconst a = 1;`,
+        output: `"use client";\n// keep me\n\nconst a = 1;`,
+        errors: [{ messageId: "duplicateDirective" }],
+      },
+      // quotes don't matter for duplicates; the first occurrence is kept
+      {
+        code: `"use client";\n"use strict";\n'use client';\nconst a = 1;`,
+        output: `"use client";\n"use strict";\nconst a = 1;`,
+        errors: [{ messageId: "duplicateDirective" }],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/no-misplaced-use-directive.js";
+
+describe("explicit-use-directives/no-misplaced-use-directive", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("no-misplaced-use-directive", rule, {
+    valid: [
+      // directives in the prologue
+      { code: `"use client";\nimport x from "y";` },
+      // comments before the prologue are fine
+      { code: `// header\n'use server';\nexport async function a(){}` },
+      // other strings are not directives
+      { code: `import x from "y";\n"hello";\nconst s = "use client";` },
+      // function-level directives are out of scope
+      { code: `import x from "y";\nfunction a(){ "use server"; }` },
+    ],
+    invalid: [
+      // moved to the top of the file
+      {
+        code: `import x from "y";\n"use client";\nexport const A = () => x;`,
+        output: `"use client";\nimport x from "y";\nexport const A = () => x;`,
+        errors: [
+          {
+            messageId: "misplacedDirective",
+            data: { directive: "use client" },
+          },
+        ],
+      },
+      // inserted after a shebang
+      {
+        code: `#!/usr/bin/env node\nimport x from "y";\n"use server";\nx();`,
+        output: `#!/usr/bin/env node\n"use server";\nimport x from "y";\nx();`,
+        errors: [{ messageId: "misplacedDirective" }],
+      },
+      // the prologue already has it: only delete the stray copy
+      {
+        code: `"use client";\nimport x from "y";\n  "use client";\nx();`,
+        output: `"use client";\nimport x from "y";\nx();`,
+        errors: [{ messageId: "misplacedDirective" }],
+      },
+      // a stray directive sharing its line only removes the statement and the
+      // whitespace around it
+      {
+        code: `import x from "y"; "use client";`,
+        output: `"use client";\nimport x from "y";`,
+        errors: [{ messageId: "misplacedDirective" }],
+      },
+      {
+        code: `import x from "y";\t"use client";  \r\nx();`,
+        output: `"use client";\r\nimport x from "y";\r\nx();`,
+        errors: [{ messageId: "misplacedDirective" }],
+      },
+      // two stray copies: the first is moved, the second deleted on the next pass
+      {
+        code: `import x from "y";\n"use client";\n"use client";\n`,
+        output: `"use client";\nimport x from "y";\n"use client";\n`,
+        errors: [
+          { messageId: "misplacedDirective" },
+          { messageId: "misplacedDirective" },
+        ],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,197 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import tsParser from "@typescript-eslint/parser";
+import rule from "../src/rules/no-non-serializable-client-props.js";
+
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/import-boundaries",
+);
+const serverFile = path.join(fixtures, "src/page.jsx");
+
+describe("explicit-use-directives/no-non-serializable-client-props", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("no-non-serializable-client-props", rule, {
+    valid: [
+      // serializable values
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nexport default function Page(){\n  return <Counter label="x" count={1} items={[1, "a", null]} options={{ at: new Date(), tags: new Set() }} />;\n}`,
+      },
+      // server actions: imported, aliased and inline
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nimport { save } from "@/actions";\nexport default function Page(){\n  async function reset(){\n    "use server";\n  }\n  return <Counter onChange={save} onReset={reset} onClear={async () => {\n    "use server";\n  }} />;\n}`,
+      },
+      // exports of client modules are passed as client references
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nimport { Chart } from "./components/Chart";\nexport default function Page(){\n  return <Counter as={Chart} />;\n}`,
+      },
+      // functions may be passed to components that aren't client components
+      {
+        filename: serverFile,
+        code: `import { Card } from "./components/Card";\nexport default function Page(){\n  return <Card render={() => null} />;\n}`,
+      },
+      // JSX children and elements are serializable
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nexport default function Page(){\n  return <Counter icon={<svg />}>{() => null}</Counter>;\n}`,
+      },
+      // client modules may pass anything
+      {
+        filename: path.join(fixtures, "src/components/Panel.jsx"),
+        code: `"use client";\nimport Counter from "./Counter";\nexport function Panel(){\n  return <Counter onChange={() => {}} />;\n}`,
+      },
+      // values that can't be followed are not reported
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nimport { helpers } from "some-package";\nexport default function Page({ onChange }){\n  let handler = () => {};\n  return <Counter onChange={onChange} onHelp={helpers} onOther={handler} />;\n}`,
+      },
+      // unresolvable modules
+      {
+        filename: serverFile,
+        code: `import Button from "ui/button";\nexport default function Page(){\n  return <Button onClick={() => {}} />;\n}`,
+      },
+    ],
+    invalid: [
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nexport default function Page(){\n  return <Counter onChange={(n) => console.log(n)} />;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "onChange",
+              component: "Counter",
+              what: "a function",
+            },
+          },
+        ],
+      },
+      // local functions, classes and imported helpers
+      {
+        filename: serverFile,
+        code: `import { Chart } from "@/components/Counter";\nimport { format } from "./lib/format";\nfunction log(){}\nclass Model {}\nexport default function Page(){\n  return <Chart onLog={log} model={Model} format={format} />;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "onLog", component: "Chart", what: "a function" },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "model", component: "Chart", what: "a class" },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "format", component: "Chart", what: "a function" },
+          },
+        ],
+      },
+      // class instances, symbols and nested values
+      {
+        filename: serverFile,
+        code: `import * as ui from "./components/Counter";\nconst options = { theme: { onToggle() {} } };\nexport default function Page(){\n  return <ui.Chart client={new URL("/x")} id={Symbol("id")} options={options} series={[1, () => 2]} />;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "client",
+              component: "ui.Chart",
+              what: "a class instance",
+            },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "id", component: "ui.Chart", what: "a symbol" },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "options.theme.onToggle",
+              component: "ui.Chart",
+              what: "a function",
+            },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "series.1",
+              component: "ui.Chart",
+              what: "a function",
+            },
+          },
+        ],
+      },
+      // client components from packages, through their `exports`
+      {
+        filename: serverFile,
+        code: `import { Button } from "ui-kit";\nimport Star from "ui-kit/icons/star";\nexport default function Page(){\n  return <Button onClick={() => {}}><Star onHover={() => {}} /></Button>;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "onClick", component: "Button", what: "a function" },
+          },
+          {
+            messageId: "nonSerializableProp",
+            data: { prop: "onHover", component: "Star", what: "a function" },
+          },
+        ],
+      },
+      // spread object literals
+      {
+        filename: serverFile,
+        code: `import Counter from "./components/Counter";\nexport default function Page(){\n  return <Counter {...{ count: 1, onChange: () => {} }} />;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "onChange",
+              component: "Counter",
+              what: "a function",
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  const tsTester = new RuleTester({
+    languageOptions: {
+      parser: tsParser,
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tsTester.run("no-non-serializable-client-props (typescript)", rule, {
+    valid: [],
+    invalid: [
+      {
+        filename: path.join(fixtures, "src/page.tsx"),
+        code: `import Counter from "./components/Counter";\nconst onChange = ((n: number) => n) as unknown as number;\nexport default function Page() {\n  return <Counter onChange={onChange} />;\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableProp",
+            data: {
+              prop: "onChange",
+              component: "Counter",
+              what: "a function",
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
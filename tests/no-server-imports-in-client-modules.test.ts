@@ -0,0 +1,187 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import tsParser from "@typescript-eslint/parser";
+import rule from "../src/rules/no-server-imports-in-client-modules.js";
+
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/import-boundaries",
+);
+const clientFile = path.join(fixtures, "src/components/Button.jsx");
+
+describe("explicit-use-directives/no-server-imports-in-client-modules", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("no-server-imports-in-client-modules", rule, {
+    valid: [
+      // server actions from a "use server" module (relative and aliased)
+      {
+        filename: clientFile,
+        code: `"use client";\nimport submit, { save, remove } from "../actions";\nimport * as actions from "@/actions";`,
+      },
+      // modules without "use server" are not restricted
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { format } from "@/lib/format";`,
+      },
+      // unresolvable packages are ignored
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { useState } from "react";`,
+      },
+      // server files may import anything
+      {
+        filename: path.join(fixtures, "src/page.jsx"),
+        code: `import { LIMIT } from "./actions";\nimport { cookies } from "next/headers";`,
+      },
+      // suffixes: .server modules may be imported by server code, and only
+      // count with the option
+      {
+        filename: path.join(fixtures, "src/page.jsx"),
+        code: `import { query } from "./lib/db.server";`,
+        options: [{ suffixes: true }],
+      },
+      {
+        filename: path.join(fixtures, "src/components/Chart.client.jsx"),
+        code: `import { query } from "../lib/db.server";`,
+      },
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { query } from "../lib/db.server";`,
+      },
+      // configured server-only modules replace the defaults
+      {
+        filename: clientFile,
+        code: `"use client";\nimport "server-only";`,
+        options: [{ serverOnlyModules: ["database"] }],
+      },
+    ],
+    invalid: [
+      // non-action exports of a "use server" module
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { save, LIMIT } from "@/actions";`,
+        errors: [
+          {
+            messageId: "nonActionImport",
+            data: { name: "LIMIT", source: "@/actions" },
+          },
+        ],
+      },
+      // suffixes: .client files can't import .server modules
+      {
+        filename: path.join(fixtures, "src/components/Chart.client.jsx"),
+        code: `import { query } from "../lib/db.server";\nimport "../lib/db.server.js";\nimport { format } from "@/lib/format";`,
+        options: [{ suffixes: true }],
+        errors: [
+          {
+            messageId: "serverModuleImport",
+            data: { source: "../lib/db.server" },
+          },
+          {
+            messageId: "serverModuleImport",
+            data: { source: "../lib/db.server.js" },
+          },
+        ],
+      },
+      // suffixes: "use client" files neither
+      {
+        filename: clientFile,
+        code: `"use client";\nexport const load = () => import("@/lib/db.server");`,
+        options: [{ suffixes: true }],
+        errors: [
+          {
+            messageId: "serverModuleImport",
+            data: { source: "@/lib/db.server" },
+          },
+        ],
+      },
+      // "use server" modules of packages
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { track, VERSION } from "ui-kit/actions";`,
+        errors: [
+          {
+            messageId: "nonActionImport",
+            data: { name: "VERSION", source: "ui-kit/actions" },
+          },
+        ],
+      },
+      // server-only packages, subpaths and node builtins
+      {
+        filename: clientFile,
+        code: `"use client";\nimport "server-only";\nimport { cookies } from "next/headers";\nimport { readFile } from "fs/promises";\nimport os from "node:os";`,
+        errors: [
+          {
+            messageId: "serverOnlyImport",
+            data: { source: "server-only" },
+          },
+          {
+            messageId: "serverOnlyImport",
+            data: { source: "next/headers" },
+          },
+          {
+            messageId: "serverOnlyImport",
+            data: { source: "fs/promises" },
+          },
+          { messageId: "serverOnlyImport", data: { source: "node:os" } },
+        ],
+      },
+      // dynamic imports
+      {
+        filename: clientFile,
+        code: `"use client";\nexport const load = () => import("fs");`,
+        errors: [{ messageId: "serverOnlyImport", data: { source: "fs" } }],
+      },
+      // custom server-only modules
+      {
+        filename: clientFile,
+        code: `"use client";\nimport { db } from "database/client";`,
+        options: [{ serverOnlyModules: ["database"] }],
+        errors: [
+          {
+            messageId: "serverOnlyImport",
+            data: { source: "database/client" },
+          },
+        ],
+      },
+    ],
+  });
+
+  const tsTester = new RuleTester({
+    languageOptions: { parser: tsParser },
+  });
+
+  tsTester.run("no-server-imports-in-client-modules (typescript)", rule, {
+    valid: [
+      // type-only imports are erased
+      {
+        filename: path.join(fixtures, "src/components/Form.tsx"),
+        code: `"use client";\nimport type { MODES } from "../typed-actions";\nimport { save, type SaveResult } from "../typed-actions";`,
+      },
+    ],
+    invalid: [
+      {
+        filename: path.join(fixtures, "src/components/Form.tsx"),
+        code: `"use client";\nimport { save, MODES } from "../typed-actions.js";`,
+        errors: [
+          {
+            messageId: "nonActionImport",
+            data: { name: "MODES", source: "../typed-actions.js" },
+          },
+        ],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,127 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/no-unknown-use-directive.js";
+
+describe("explicit-use-directives/no-unknown-use-directive", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+    },
+  });
+
+  tester.run("no-unknown-use-directive", rule, {
+    valid: [
+      { code: `"use client";\n"use strict";\n"use no memo";` },
+      { code: `'use server';\n'use cache';\n'use dom';` },
+      { code: `"use cache: remote";` },
+      // React Compiler's opt-in, not a typo of "use no memo"
+      { code: `"use memo";` },
+      // configured extras
+      {
+        code: `"use workflow";`,
+        options: [{ additionalDirectives: ["use workflow"] }],
+      },
+      // strings that don't look like `use` directives are left alone
+      { code: `"ngInject";\nconst a = 1;` },
+      // only the prologue is checked
+      { code: `foo();\n"use clinet";` },
+    ],
+    invalid: [
+      // transposed letters
+      {
+        code: `"use clinet";\nexport const A = 1;`,
+        errors: [
+          {
+            messageId: "unknownDirective",
+            data: { directive: "use clinet" },
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use client" },
+                output: `"use client";\nexport const A = 1;`,
+              },
+            ],
+          },
+        ],
+      },
+      // separators and casing, keeping the quote style
+      {
+        code: `'use-client';`,
+        errors: [
+          {
+            messageId: "unknownDirective",
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use client" },
+                output: `'use client';`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: `"Use server";`,
+        errors: [
+          {
+            messageId: "unknownDirective",
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use server" },
+                output: `"use server";`,
+              },
+            ],
+          },
+        ],
+      },
+      // misspelled without the `use` prefix
+      {
+        code: `"usr strict";`,
+        errors: [
+          {
+            messageId: "unknownDirective",
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use strict" },
+                output: `"use strict";`,
+              },
+            ],
+          },
+        ],
+      },
+      // several close matches, best first
+      {
+        code: `"use clint";`,
+        options: [{ additionalDirectives: ["use clients"] }],
+        errors: [
+          {
+            messageId: "unknownDirective",
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use client" },
+                output: `"use client";`,
+              },
+              {
+                messageId: "replaceDirective",
+                data: { suggestion: "use clients" },
+                output: `"use clients";`,
+              },
+            ],
+          },
+        ],
+      },
+      // unknown `use` directives without a close match get no suggestions
+      {
+        code: `"use something else entirely";`,
+        errors: [{ messageId: "unknownDirective", suggestions: [] }],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
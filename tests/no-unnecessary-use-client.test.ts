@@ -0,0 +1,126 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import tsParser from "@typescript-eslint/parser";
+import rule from "../src/rules/no-unnecessary-use-client.js";
+
+describe("explicit-use-directives/no-unnecessary-use-client", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("no-unnecessary-use-client", rule, {
+    valid: [
+      // no "use client" at all
+      {
+        code: `export const A = () => <div/>;`,
+      },
+      {
+        code: `"use client";\nimport { useState } from "react";\nexport function A(){ const [n] = useState(0); return n }`,
+      },
+      {
+        code: `"use client";\nexport const A = ({ go }) => <button onClick={go}/>;`,
+      },
+      {
+        code: `"use client";\nexport const width = () => window.innerWidth;`,
+      },
+      {
+        code: `"use client";\nimport { Component } from "react";\nexport class A extends Component {}`,
+      },
+      {
+        code: `"use client";\nimport "client-only";\nexport const A = () => <div/>;`,
+      },
+      {
+        code: `"use client";\nexport const load = () => import("chart-lib/client");`,
+        options: [{ clientOnlyModules: ["chart-lib"] }],
+      },
+      // contexts can only be created in client modules
+      {
+        code: `"use client";\nimport { createContext } from "react";\nexport const Theme = createContext("light");`,
+      },
+      {
+        code: `"use client";\nimport * as React from "react";\nexport const Theme = React.createContext("light");`,
+      },
+      // client boundaries for third-party components
+      {
+        code: `"use client";\nexport { Carousel } from "acme-carousel";`,
+      },
+      {
+        code: `"use client";\nexport * from "acme-carousel";`,
+      },
+    ],
+    invalid: [
+      {
+        code: `"use client";\n\nexport const A = ({ title }) => <h1>{title}</h1>;`,
+        errors: [
+          {
+            messageId: "unnecessaryUseClient",
+            suggestions: [
+              {
+                messageId: "removeUseClient",
+                output: `\nexport const A = ({ title }) => <h1>{title}</h1>;`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: `'use client';\nexport const A = () => <div/>;`,
+        options: [{ prefer: "remove" }],
+        errors: [
+          {
+            messageId: "unnecessaryUseClient",
+            suggestions: [
+              {
+                messageId: "removeUseClient",
+                output: `export const A = () => <div/>;`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: `'use client';\nexport const A = () => <div/>;`,
+        options: [{ prefer: "use server" }],
+        errors: [
+          {
+            messageId: "unnecessaryUseClient",
+            suggestions: [
+              {
+                messageId: "switchToUseServer",
+                output: `'use server';\nexport const A = () => <div/>;`,
+              },
+            ],
+          },
+        ],
+      },
+      // type-only imports of client-only modules and type-only re-exports
+      // don't count
+      {
+        code: `"use client";\nimport type { Props } from "client-only";\nexport type { Theme } from "acme-carousel";\nexport const A = () => <div/>;`,
+        languageOptions: { parser: tsParser },
+        errors: [
+          {
+            messageId: "unnecessaryUseClient",
+            suggestions: [
+              {
+                messageId: "removeUseClient",
+                output: `import type { Props } from "client-only";\nexport type { Theme } from "acme-carousel";\nexport const A = () => <div/>;`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  // Vitest needs at least one "it" inside "describe" to show up green,
+  // even though RuleTester already throws on failures.
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {
+    // If we get here, RuleTester did not throw.
+  });
+});
@@ -0,0 +1,211 @@
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { scanImportSpecifiers } from "../src/cli/project.js";
+import { createReport, formatReport } from "../src/cli/report.js";
+import { run } from "../src/cli/run.js";
+
+const root = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "report",
+);
+
+async function runCli(...argv: string[]) {
+  const io = { stdout: "", stderr: "" };
+  const code = await run(argv, {
+    stdout: (text) => (io.stdout += text),
+    stderr: (text) => (io.stderr += text),
+    cwd: root,
+  });
+  return { code, ...io };
+}
+
+describe("scanImportSpecifiers", () => {
+  it("finds runtime imports, re-exports and import() calls", () => {
+    const code = [
+      'import a from "./a";',
+      "import { b,\n  c } from './b';",
+      'import "./side-effect";',
+      'export * from "./re-export";',
+      'const d = await import("./dynamic");',
+      'import type { T } from "./types";',
+      'export type { U } from "./types";',
+      'import type from "./default-named-type";',
+      '// import x from "./commented";',
+      '/* import y from "./block-commented"; */',
+      'const s = "// not a comment"; import z from "./after-string";',
+    ].join("\n");
+    expect(scanImportSpecifiers(code)).toEqual([
+      "./a",
+      "./b",
+      "./re-export",
+      "./default-named-type",
+      "./after-string",
+      "./side-effect",
+      "./dynamic",
+    ]);
+  });
+});
+
+describe("createReport", () => {
+  it("counts directives per directory and finds client boundaries", () => {
+    expect(createReport(root)).toEqual({
+      totals: { files: 6, client: 2, server: 0, missing: 4 },
+      directories: [
+        { directory: "app", files: 2, client: 1, server: 0, missing: 1 },
+        {
+          directory: "components",
+          files: 3,
+          client: 1,
+          server: 0,
+          missing: 2,
+        },
+        { directory: "lib", files: 1, client: 0, server: 0, missing: 1 },
+      ],
+      boundaries: [
+        {
+          from: "app/page.jsx",
+          to: "app/Counter.jsx",
+          specifier: "./Counter",
+        },
+        {
+          from: "components/Card.jsx",
+          to: "components/Button.jsx",
+          specifier: "./Button",
+        },
+        {
+          from: "components/Layout.jsx",
+          to: "node_modules/widgets/index.jsx",
+          specifier: "widgets",
+        },
+        {
+          from: "components/Layout.jsx",
+          to: "components/Button.jsx",
+          specifier: "./Button",
+        },
+      ],
+    });
+  });
+
+  it("applies extensions, ignore, include and includeNodeModules", () => {
+    const withTs = createReport(root, { extensions: ["ts", "jsx"] });
+    expect(withTs.totals).toEqual({
+      files: 7,
+      client: 2,
+      server: 1,
+      missing: 4,
+    });
+
+    const ignored = createReport(root, {
+      ignore: ["components/**", "!components/Card.jsx"],
+    });
+    expect(ignored.directories.map((d) => d.directory)).toEqual([
+      "app",
+      "components",
+      "lib",
+    ]);
+    expect(ignored.totals.files).toBe(4);
+
+    const included = createReport(root, { include: ["app/**"] });
+    expect(included.totals.files).toBe(2);
+
+    const withPackages = createReport(root, { includeNodeModules: true });
+    expect(withPackages.directories.at(-1)).toEqual({
+      directory: "node_modules/widgets",
+      files: 1,
+      client: 1,
+      server: 0,
+      missing: 0,
+    });
+  });
+});
+
+describe("formatReport", () => {
+  const report = createReport(root, { include: ["app/**"] });
+
+  it("renders Markdown tables", () => {
+    expect(formatReport(report, "markdown")).toBe(
+      [
+        "# Directive report",
+        "",
+        '| Directory | Files | "use client" | "use server" | Missing |',
+        "| --- | ---: | ---: | ---: | ---: |",
+        "| `app` | 2 | 1 | 0 | 1 |",
+        "| **Total** | 2 | 1 | 0 | 1 |",
+        "",
+        "## Client boundaries",
+        "",
+        "| From | Import | To |",
+        "| --- | --- | --- |",
+        "| `app/page.jsx` | `./Counter` | `app/Counter.jsx` |",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders a Graphviz graph clustered by directory", () => {
+    expect(formatReport(report, "dot")).toBe(
+      [
+        "digraph directives {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        "  subgraph cluster_0 {",
+        '    label="app (client 1, server 0, missing 1)";',
+        '    "app/Counter.jsx" [style=filled, fillcolor=lightblue];',
+        '    "app/page.jsx";',
+        "  }",
+        '  "app/page.jsx" -> "app/Counter.jsx" [label="./Counter"];',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders JSON", () => {
+    expect(JSON.parse(formatReport(report, "json"))).toEqual(report);
+  });
+});
+
+describe("run", () => {
+  it("prints a report of the given directory", async () => {
+    const result = await runCli(
+      "report",
+      ".",
+      "--format=json",
+      "--include",
+      "lib/**",
+    );
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout).totals).toEqual({
+      files: 1,
+      client: 0,
+      server: 0,
+      missing: 1,
+    });
+  });
+
+  it("accepts comma-separated and repeated extensions", async () => {
+    const result = await runCli(
+      "report",
+      "--format",
+      "json",
+      "--extensions",
+      ".ts,tsx",
+      "--extensions=jsx",
+    );
+    expect(JSON.parse(result.stdout).totals.files).toBe(7);
+  });
+
+  it("reports usage errors with exit code 2", async () => {
+    expect(await runCli("report", "--format", "yaml")).toMatchObject({
+      code: 2,
+      stderr: expect.stringContaining('Unknown format "yaml"'),
+    });
+    expect((await runCli("report", "--verbose")).code).toBe(2);
+    expect((await runCli("report", "--ignore")).code).toBe(2);
+    expect((await runCli("inspect")).code).toBe(2);
+    expect((await runCli()).code).toBe(2);
+    expect(await runCli("--help")).toMatchObject({ code: 0, stderr: "" });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import tsParser from "@typescript-eslint/parser";
+import rule from "../src/rules/require-async-server-exports.js";
+
+describe("explicit-use-directives/require-async-server-exports", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("require-async-server-exports", rule, {
+    valid: [
+      // async function declarations and expressions
+      {
+        code: `"use server";\nexport async function a(){}\nexport const b = async () => {};\nexport const c = async function(){};`,
+      },
+      // default exports
+      {
+        code: `"use server";\nexport default async function save(){}`,
+      },
+      // local re-exports of async functions, including renames
+      {
+        code: `"use server";\nasync function a(){}\nconst b = async () => {};\nexport { a as save, b };\nexport default a;`,
+      },
+      // values that can't be classified statically are left alone
+      {
+        code: `"use server";\nexport const a = withAuth(async () => {});\nexport { b } from "./b";`,
+      },
+      // files without "use server" are not checked
+      {
+        code: `export const x = 1;\nexport function sync(){}`,
+      },
+      // "use server" outside the prologue is not a directive
+      {
+        code: `export const x = 1;\n"use server";`,
+      },
+    ],
+    invalid: [
+      // file-level "use cache" requires async exports too
+      {
+        code: `"use cache";\nexport function list(){ return db.list() }\nexport * from "./more";`,
+        output: `"use cache";\nexport async function list(){ return db.list() }\nexport * from "./more";`,
+        errors: [
+          {
+            messageId: "nonAsyncCacheExport",
+            data: {
+              directive: "use cache",
+              name: "list",
+              what: "a synchronous function",
+            },
+          },
+          {
+            messageId: "cacheExportAll",
+            data: { directive: "use cache", source: "./more" },
+          },
+        ],
+      },
+      {
+        code: `"use cache: remote";\nexport const TTL = 60;`,
+        output: null,
+        errors: [
+          {
+            messageId: "nonAsyncCacheExport",
+            data: {
+              directive: "use cache: remote",
+              name: "TTL",
+              what: "not a function",
+            },
+          },
+        ],
+      },
+      // constants
+      {
+        code: `"use server";\nexport const LIMIT = 10;`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "LIMIT", what: "not a function" },
+          },
+        ],
+      },
+      // classes
+      {
+        code: `"use server";\nexport class Store {}`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "Store", what: "a class" },
+          },
+        ],
+      },
+      // sync function declaration → add async
+      {
+        code: `"use server";\nexport function save(){}`,
+        output: `"use server";\nexport async function save(){}`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "save", what: "a synchronous function" },
+          },
+        ],
+      },
+      // sync arrow and function expressions → add async
+      {
+        code: `"use server";\nexport const a = (x) => x;\nexport const b = function(){};`,
+        output: `"use server";\nexport const a = async (x) => x;\nexport const b = async function(){};`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "a", what: "a synchronous function" },
+          },
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "b", what: "a synchronous function" },
+          },
+        ],
+      },
+      // default exports
+      {
+        code: `"use server";\nexport default function(){}`,
+        output: `"use server";\nexport default async function(){}`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "default", what: "a synchronous function" },
+          },
+        ],
+      },
+      {
+        code: `"use server";\nexport default { a: 1 };`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "default", what: "not a function" },
+          },
+        ],
+      },
+      // re-exported local bindings, reported at the specifier
+      {
+        code: `"use server";\nfunction a(){}\nconst b = 1;\nexport { a as save, b };`,
+        output: `"use server";\nasync function a(){}\nconst b = 1;\nexport { a as save, b };`,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "save", what: "a synchronous function" },
+          },
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "b", what: "not a function" },
+          },
+        ],
+      },
+      // no autofix when the return value is used in the same file
+      {
+        code: `"use server";\nexport function read(){ return 1 }\nconst value = read();`,
+        output: null,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "read", what: "a synchronous function" },
+          },
+        ],
+      },
+      {
+        code: `"use server";\nexport const a = (() => 1) as unknown as F;\nconst one = a() + 1;`,
+        output: null,
+        languageOptions: { parser: tsParser },
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "a", what: "a synchronous function" },
+          },
+        ],
+      },
+      {
+        code: `"use server";\nexport const a = (() => 1) satisfies F;\nconst one = a() + 1;`,
+        output: null,
+        languageOptions: { parser: tsParser },
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "a", what: "a synchronous function" },
+          },
+        ],
+      },
+      // generators can't be fixed by adding async
+      {
+        code: `"use server";\nexport function* stream(){}`,
+        output: null,
+        errors: [
+          {
+            messageId: "nonAsyncExport",
+            data: { name: "stream", what: "a generator function" },
+          },
+        ],
+      },
+      // export * can't be verified
+      {
+        code: `"use server";\nexport * from "./actions";`,
+        errors: [{ messageId: "exportAll", data: { source: "./actions" } }],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,163 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import tsParser from "@typescript-eslint/parser";
+import rule from "../src/rules/require-serializable-server-actions.js";
+
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/type-aware",
+);
+const filename = path.join(fixtures, "actions.ts");
+
+describe("explicit-use-directives/require-serializable-server-actions", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      parser: tsParser,
+      parserOptions: {
+        project: "./tsconfig.json",
+        tsconfigRootDir: fixtures,
+      },
+    },
+  });
+
+  tester.run("require-serializable-server-actions", rule, {
+    valid: [
+      // primitives, plain objects, arrays and FormData
+      {
+        filename,
+        code: `"use server";\ntype Item = { id: number; tags: string[]; note?: string | null };\nexport async function save(item: Item, data: FormData): Promise<{ ok: boolean }> {\n  return { ok: true };\n}`,
+      },
+      {
+        filename,
+        code: `"use server";\nexport const load = async (ids: readonly number[], when: Date): Promise<[string, Map<string, Set<number>>]> => ["", new Map()];`,
+      },
+      // any and unknown are trusted
+      {
+        filename,
+        code: `"use server";\nexport async function save(input: unknown, extra: any) {}`,
+      },
+      // only "use server" files are checked
+      {
+        filename,
+        code: `export async function save(callback: () => void) {}`,
+      },
+      // non-function exports are left to require-async-server-exports
+      {
+        filename,
+        code: `"use server";\nexport type Handler = () => void;`,
+      },
+    ],
+    invalid: [
+      {
+        filename,
+        code: `"use server";\nexport async function save(onDone: () => void) {}`,
+        errors: [
+          {
+            messageId: "nonSerializableParam",
+            data: {
+              param: "onDone",
+              name: "save",
+              type: "() => void",
+              reason: "it contains a function",
+            },
+          },
+        ],
+      },
+      {
+        filename,
+        code: `"use server";\nclass User { constructor(public name: string) {} }\nexport async function load(): Promise<User> {\n  return new User("a");\n}`,
+        errors: [
+          {
+            messageId: "nonSerializableReturn",
+            data: {
+              name: "load",
+              type: "User",
+              reason: "it contains an instance of the class `User`",
+            },
+          },
+        ],
+      },
+      {
+        filename,
+        code: `"use server";\nexport const save = async (options: { id: string; meta: { onDone(): void } }) => {};`,
+        errors: [
+          {
+            messageId: "nonSerializableParam",
+            data: {
+              param: "options",
+              name: "save",
+              type: "{ id: string; meta: { onDone(): void; }; }",
+              reason: "it contains a function at `meta.onDone`",
+            },
+          },
+        ],
+      },
+      {
+        filename,
+        code: `"use server";\nexport default async function tag(key: symbol) {}`,
+        errors: [
+          {
+            messageId: "nonSerializableParam",
+            data: {
+              param: "key",
+              name: "default",
+              type: "symbol",
+              reason: "it contains a symbol",
+            },
+          },
+        ],
+      },
+      // Date, Map and Set can be disallowed
+      {
+        filename,
+        code: `"use server";\nexport async function schedule(at: Date) {}`,
+        options: [{ allowDate: false }],
+        errors: [
+          {
+            messageId: "nonSerializableParam",
+            data: {
+              param: "at",
+              name: "schedule",
+              type: "Date",
+              reason: "it contains a `Date`",
+            },
+          },
+        ],
+      },
+      {
+        filename,
+        code: `"use server";\nexport async function load(): Promise<{ byId: Map<string, number> }> {\n  return { byId: new Map() };\n}`,
+        options: [{ allowMapAndSet: false }],
+        errors: [
+          {
+            messageId: "nonSerializableReturn",
+            data: {
+              name: "load",
+              type: "{ byId: Map<string, number>; }",
+              reason: "it contains a `Map` at `byId`",
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  // Without type information the rule does nothing.
+  const untypedTester = new RuleTester({
+    languageOptions: { parser: tsParser },
+  });
+
+  untypedTester.run("require-serializable-server-actions (untyped)", rule, {
+    valid: [
+      {
+        code: `"use server";\nexport async function save(onDone: () => void) {}`,
+      },
+    ],
+    invalid: [],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,139 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/require-use-client-for-client-apis.js";
+
+describe("explicit-use-directives/require-use-client-for-client-apis", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("require-use-client-for-client-apis", rule, {
+    valid: [
+      // "use client" files may use anything
+      {
+        code: `"use client";\nimport { useState } from "react";\nexport function A(){ const [n] = useState(0); return <button onClick={() => {}}>{n}</button> }`,
+      },
+      // server component without client APIs
+      {
+        code: `export default async function Page(){ return <div>{await load()}</div> }`,
+      },
+      // `use` alone is not a client hook
+      {
+        code: `export function A({ p }){ return <div>{use(p)}</div> }`,
+      },
+      // locally declared `window` is not the browser global
+      {
+        code: `"use server";\nconst window = 1;\nexport async function a(){ return window }`,
+      },
+      // `typeof` guards for code that also runs on the server
+      {
+        code: `export const isBrowser = () => typeof window !== "undefined";`,
+      },
+      // non-handler props
+      {
+        code: `export const A = () => <div one={1} onion="x"/>;`,
+      },
+    ],
+    invalid: [
+      // hooks in a "use server" file → switch the directive
+      {
+        code: `"use server";\nexport function A(){ const [n] = useState(0); useEffect(() => {}); return n }`,
+        errors: [
+          {
+            messageId: "missingUseClient",
+            data: { feature: "calls React hook `useState`" },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `"use client";\nexport function A(){ const [n] = useState(0); useEffect(() => {}); return n }`,
+              },
+            ],
+          },
+          {
+            messageId: "missingUseClient",
+            data: { feature: "calls React hook `useEffect`" },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `"use client";\nexport function A(){ const [n] = useState(0); useEffect(() => {}); return n }`,
+              },
+            ],
+          },
+        ],
+      },
+      // custom hooks via member access, single quotes are kept
+      {
+        code: `'use server';\nexport function A(){ return React.useReducer(r, 0) }`,
+        errors: [
+          {
+            messageId: "missingUseClient",
+            data: { feature: "calls React hook `useReducer`" },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `'use client';\nexport function A(){ return React.useReducer(r, 0) }`,
+              },
+            ],
+          },
+        ],
+      },
+      // JSX event handler without any directive → insert "use client"
+      {
+        code: `// header\nexport const A = () => <button onClick={go}/>;`,
+        errors: [
+          {
+            messageId: "missingUseClient",
+            data: { feature: "passes JSX event handler `onClick`" },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `// header\n"use client";\nexport const A = () => <button onClick={go}/>;`,
+              },
+            ],
+          },
+        ],
+      },
+      // class components
+      {
+        code: `export class A extends React.Component { render(){ return null } }`,
+        errors: [
+          {
+            messageId: "missingUseClient",
+            data: {
+              feature: "declares a class component extending `Component`",
+            },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `"use client";\nexport class A extends React.Component { render(){ return null } }`,
+              },
+            ],
+          },
+        ],
+      },
+      // browser globals, keeping other directives in place
+      {
+        code: `"use strict";\nexport const w = () => window.innerWidth;`,
+        errors: [
+          {
+            messageId: "missingUseClient",
+            data: { feature: "uses browser global `window`" },
+            suggestions: [
+              {
+                messageId: "switchToUseClient",
+                output: `"use client";\n"use strict";\nexport const w = () => window.innerWidth;`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -1,7 +1,23 @@
 import { describe, it } from "vitest";
 import { RuleTester } from "eslint";
+import * as path from "path";
 import rule from "../src/rules/require-use-directive-first.js";
 
+/** A file under the working directory, which relative patterns match. */
+const inCwd = (file: string) => path.join(process.cwd(), file);
+
+/**
+ * The suggestions offered for a missing directive: one per directive, the
+ * first being the one the autofix inserts into `output`.
+ */
+function insertSuggestions(output: string, ...directives: string[]) {
+  return directives.map((directive) => ({
+    messageId: "insertDirective",
+    data: { directive },
+    output: output.replace(directives[0]!, directive),
+  }));
+}
+
 describe("explicit-use-directives/require-use-directive-first", () => {
   const tester = new RuleTester({
     languageOptions: {
@@ -91,6 +107,35 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ ignore: ["**/pages/**"], directive: "use client" }],
       },
 
+      // Relative patterns, braces and classes
+      {
+        filename: inCwd("src/components/Button.test.tsx"),
+        code: `const A = 1;`,
+        options: [
+          {
+            ignore: ["src/**/*.{test,spec}.tsx", "./stories/v[0-9]/**"],
+            directive: "use client",
+          },
+        ],
+      },
+      {
+        filename: inCwd("stories/v2/Button.stories.tsx"),
+        code: `const A = 1;`,
+        options: [
+          {
+            ignore: ["src/**/*.{test,spec}.tsx", "./stories/v[0-9]/**"],
+            directive: "use client",
+          },
+        ],
+      },
+
+      // include: files outside it are skipped
+      {
+        filename: inCwd("legacy/Page.tsx"),
+        code: `const A = 1;`,
+        options: [{ include: ["src/**", "app/**"], directive: "use client" }],
+      },
+
       // extensions override to only check .js (TSX file is then ignored entirely)
       {
         filename: "/app/components/IgnoreTsxBecauseExtensionsOverride.tsx",
@@ -111,15 +156,129 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         code: `"use client";\nconst A = 1;`,
         options: [{ directive: "use client" }],
       },
+
+      // overrides: a matching override with `directive: null` skips the file
+      {
+        filename: "/repo/app/api/route.tsx",
+        code: `export async function GET(){}`,
+        options: [
+          {
+            directive: "use client",
+            overrides: [
+              { files: "**/actions/**", directive: "use server" },
+              { files: ["**/components/client/**"], directive: "use client" },
+              { files: "**/app/**/route.tsx", directive: null },
+            ],
+          },
+        ],
+      },
+
+      // overrides: the matched directive is present
+      {
+        filename: "/repo/app/actions/save.tsx",
+        code: `"use server";\nexport async function save(){}`,
+        options: [
+          {
+            directive: "use client",
+            overrides: [
+              { files: "**/actions/**", directive: "use server" },
+              { files: ["**/components/client/**"], directive: "use client" },
+              { files: "**/app/**/route.tsx", directive: null },
+            ],
+          },
+        ],
+      },
+
+      // suffixes: the suffix decides, even for .ts files
+      {
+        filename: "/repo/app/db.server.ts",
+        code: `"use server";
+export async function load(){}`,
+        options: [{ directive: "use client", suffixes: true }],
+      },
+      {
+        filename: "/repo/app/.client/analytics.ts",
+        code: `"use client";
+export const track = () => {};`,
+        options: [{ directive: "use server", suffixes: true }],
+      },
+      // suffixes: files without a suffix keep the default extensions
+      {
+        filename: "/repo/app/utils.ts",
+        code: `export const a = 1;`,
+        options: [{ directive: "use client", suffixes: true }],
+      },
+      // suffixes: off by default
+      {
+        filename: "/repo/app/Chart.client.tsx",
+        code: `"use server";
+export async function a(){}`,
+        options: [{ directive: "use client" }],
+      },
+      // suffixes: overrides still win
+      {
+        filename: "/repo/app/legacy/db.server.ts",
+        code: `export const db = {};`,
+        options: [
+          {
+            directive: "use client",
+            suffixes: true,
+            overrides: [{ files: "**/legacy/**", directive: null }],
+          },
+        ],
+      },
     ],
 
     invalid: [
+      // "use cache" is a modifier and doesn't satisfy the rule
+      {
+        filename: "/app/components/Cached.tsx",
+        code: `"use cache";\nexport async function List(){ return <ul/> }`,
+        output: `"use server";\n"use cache";\nexport async function List(){ return <ul/> }`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use server";\n"use cache";\nexport async function List(){ return <ul/> }`,
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use server" }],
+      },
+
+      // "use client" can't go next to "use cache": only "use server" is suggested
+      {
+        filename: "/app/components/Cached.tsx",
+        code: `"use cache";\nexport async function List(){ return <ul/> }`,
+        errors: [
+          {
+            messageId: "clientWithCache",
+            data: { directive: "use client", cache: "use cache" },
+            suggestions: insertSuggestions(
+              `"use server";\n"use cache";\nexport async function List(){ return <ul/> }`,
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use client" }],
+      },
+
       // Missing directive on TSX → auto-insert default "use client"
       {
         filename: "/app/components/Missing.tsx",
         code: `export function A(){ return <div/> }`,
         output: `"use client";\nexport function A(){ return <div/> }`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport function A(){ return <div/> }`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
         options: [{ directive: "use client" }],
       },
 
@@ -128,7 +287,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         filename: "/app/components/WithComment.tsx",
         code: `// heading\nimport React from "react";\nexport const A = () => <div/>;`,
         output: `// heading\n"use client";\nimport React from "react";\nexport const A = () => <div/>;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `// heading\n"use client";\nimport React from "react";\nexport const A = () => <div/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
         options: [{ directive: "use client" }],
       },
 
@@ -137,7 +305,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         filename: "/app/components/Empty.tsx",
         code: ``,
         output: `"use client";\n`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
         options: [{ directive: "use client" }],
       },
 
@@ -147,7 +324,142 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ extensions: ["js"], directive: "use client" }],
         code: `#!/usr/bin/env node\nconsole.log("hi");\n`,
         output: `#!/usr/bin/env node\n"use client";\nconsole.log("hi");\n`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `#!/usr/bin/env node\n"use client";\nconsole.log("hi");\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // CRLF files get a CRLF after the directive
+      {
+        filename: "/app/components/Crlf.jsx",
+        options: [{ directive: "use client" }],
+        code: `import x from "x";\r\nx();\r\n`,
+        output: `"use client";\r\nimport x from "x";\r\nx();\r\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\r\nimport x from "x";\r\nx();\r\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // A BOM stays first
+      {
+        filename: "/app/components/Bom.jsx",
+        options: [{ directive: "use client" }],
+        code: `\uFEFFexport const a = 1;\n`,
+        output: `\uFEFF"use client";\nexport const a = 1;\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `\uFEFF"use client";\nexport const a = 1;\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // Header comments and pragmas stay above the directive by default
+      {
+        filename: "/app/components/Licensed.jsx",
+        options: [{ directive: "use client" }],
+        code: `/*! MIT License */\n// @ts-nocheck\nexport const a = 1;\n`,
+        output: `/*! MIT License */\n// @ts-nocheck\n"use client";\nexport const a = 1;\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `/*! MIT License */\n// @ts-nocheck\n"use client";\nexport const a = 1;\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // position "top" puts the directive on the first line
+      {
+        filename: "/app/components/Top.jsx",
+        options: [{ directive: "use client", position: "top" }],
+        code: `/*! MIT License */\nexport const a = 1;\n`,
+        output: `"use client";\n/*! MIT License */\nexport const a = 1;\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n/*! MIT License */\nexport const a = 1;\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // position "top" still keeps a shebang first
+      {
+        filename: "/app/bin/top.js",
+        options: [{ extensions: ["js"], directive: "use client", position: "top" }],
+        code: `#!/usr/bin/env node\r\n// banner\r\nrun();\r\n`,
+        output: `#!/usr/bin/env node\r\n"use client";\r\n// banner\r\nrun();\r\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `#!/usr/bin/env node\r\n"use client";\r\n// banner\r\nrun();\r\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // Files with only comments get the directive after them
+      {
+        filename: "/app/components/Empty.jsx",
+        options: [{ directive: "use client" }],
+        code: `// nothing here yet\n`,
+        output: `// nothing here yet\n"use client";\n`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `// nothing here yet\n"use client";\n`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+      },
+
+      // A shebang without a line break gets one
+      {
+        filename: "/app/bin/bare.js",
+        options: [{ extensions: ["js"], directive: "use client", position: "top" }],
+        code: `#!/usr/bin/env node`,
+        output: `#!/usr/bin/env node\n"use client";`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `#!/usr/bin/env node\n"use client";`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // requireExact: has "use server" but requires "use client"
@@ -156,7 +468,15 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ requireExact: true, directive: "use client" }],
         code: `"use server";\nconst A = 1;`,
         output: `"use client";\n"use server";\nconst A = 1;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n"use server";\nconst A = 1;`,
+              "use client",
+            ),
+          },
+        ],
       },
 
       // requireOneOf provided; "use strict" alone does not satisfy
@@ -170,7 +490,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         ],
         code: `"use strict";\nconst A = 1;`,
         output: `"use client";\n"use strict";\nconst A = 1;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n"use strict";\nconst A = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // ignoredDirectives: treat "use strict" as ignored and therefore missing
@@ -181,7 +510,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         ],
         code: `"use strict";\nconst A = 1;`,
         output: `"use client";\n"use strict";\nconst A = 1;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n"use strict";\nconst A = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // includeNodeModules: do NOT ignore node_modules; insert directive
@@ -190,7 +528,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ includeNodeModules: true, directive: "use client" }],
         code: `export const x = 1;`,
         output: `"use client";\nexport const x = 1;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const x = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // Virtual filename "<input>": still enforce even without path/ext info
@@ -198,7 +545,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         filename: "<input>",
         code: `const x = 1;`,
         output: `"use client";\nconst x = 1;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nconst x = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
         options: [{ directive: "use client" }],
       },
 
@@ -209,7 +565,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ extensions: ["jsx"], directive: "use client" }],
         code: `const A = <div/>;`,
         output: `"use client";\nconst A = <div/>;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nconst A = <div/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // ensure extension override is case-insensitive
@@ -218,7 +583,16 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         options: [{ extensions: ["JsX"], directive: "use client" }],
         code: `const A = <div/>;`,
         output: `"use client";\nconst A = <div/>;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nconst A = <div/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
       },
 
       // ensure fixer inserts before first actual token when block comment exists
@@ -226,9 +600,519 @@ describe("explicit-use-directives/require-use-directive-first", () => {
         filename: "/app/components/BlockComment.jsx",
         code: `/* block */\nconst A = <div/>;`,
         output: `/* block */\n"use client";\nconst A = <div/>;`,
-        errors: [{ messageId: "addDirective" }],
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `/* block */\n"use client";\nconst A = <div/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
         options: [{ directive: "use client" }],
       },
+
+      // quotes/semi shape the inserted directive
+      {
+        filename: "/app/components/Styled.tsx",
+        code: `import x from 'x';`,
+        output: `'use client'\nimport x from 'x';`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `'use client'\nimport x from 'x';`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use client", quotes: "single", semi: false }],
+      },
+
+      // consistent-with-file picks the quotes used by the file
+      {
+        filename: "/app/components/Consistent.tsx",
+        code: `import x from 'x';\nimport y from 'y';`,
+        output: `'use client';\nimport x from 'x';\nimport y from 'y';`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `'use client';\nimport x from 'x';\nimport y from 'y';`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use client", quotes: "consistent-with-file" }],
+      },
+
+      // semi: false keeps the semicolon when the next line would continue it
+      {
+        filename: "/app/components/Hazard.tsx",
+        code: `[1, 2].forEach(f);`,
+        output: `"use client";\n[1, 2].forEach(f);`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\n[1, 2].forEach(f);`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use client", semi: false }],
+      },
+
+      // infer: React hooks pick "use client" even when the default is server
+      {
+        filename: "/app/components/Counter.tsx",
+        code: `import { useState } from "react";\nexport function Counter(){ const [n] = useState(0); return <p>{n}</p> }`,
+        output: `"use client";\nimport { useState } from "react";\nexport function Counter(){ const [n] = useState(0); return <p>{n}</p> }`,
+        errors: [
+          {
+            messageId: "addInferredDirective",
+            data: {
+              directive: "use client",
+              reason: "calls React hook `useState`",
+            },
+            suggestions: insertSuggestions(
+              `"use client";\nimport { useState } from "react";\nexport function Counter(){ const [n] = useState(0); return <p>{n}</p> }`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", infer: true }],
+      },
+
+      // infer: JSX event handler props pick "use client"
+      {
+        filename: "/app/components/Clickable.tsx",
+        code: `export const A = () => <button onClick={() => {}}/>;`,
+        output: `"use client";\nexport const A = () => <button onClick={() => {}}/>;`,
+        errors: [
+          {
+            messageId: "addInferredDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const A = () => <button onClick={() => {}}/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", infer: true }],
+      },
+
+      // infer: browser globals pick "use client"
+      {
+        filename: "/app/components/Storage.tsx",
+        code: `export const read = () => localStorage.getItem("k");`,
+        output: `"use client";\nexport const read = () => localStorage.getItem("k");`,
+        errors: [
+          {
+            messageId: "addInferredDirective",
+            data: {
+              directive: "use client",
+              reason: "uses browser global `localStorage`",
+            },
+            suggestions: insertSuggestions(
+              `"use client";\nexport const read = () => localStorage.getItem("k");`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", infer: true }],
+      },
+
+      // infer: a module that only exports async functions picks "use server"
+      {
+        filename: "/app/actions/save.tsx",
+        code: `export async function save(){}\nexport const remove = async () => {};`,
+        output: `"use server";\nexport async function save(){}\nexport const remove = async () => {};`,
+        errors: [
+          {
+            messageId: "addInferredDirective",
+            data: {
+              directive: "use server",
+              reason: "only exports async functions",
+            },
+            suggestions: insertSuggestions(
+              `"use server";\nexport async function save(){}\nexport const remove = async () => {};`,
+              "use server",
+              "use client",
+            ),
+          },
+        ],
+        options: [{ directive: "use client", infer: true }],
+      },
+
+      // infer: async Server Components are not server functions
+      {
+        filename: "/app/components/Header.tsx",
+        code: `export const Header = async () => { const user = await getUser(); return user.name; };`,
+        output: `"use client";\nexport const Header = async () => { const user = await getUser(); return user.name; };`,
+        errors: [
+          {
+            messageId: "addFallbackDirective",
+            data: { directive: "use client" },
+            suggestions: insertSuggestions(
+              `"use client";\nexport const Header = async () => { const user = await getUser(); return user.name; };`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [{ directive: "use client", infer: true }],
+      },
+      {
+        filename: "/app/dashboard/page.tsx",
+        code: `export default async function () { const data = await load(); return data ? <main/> : null; }`,
+        errors: [
+          {
+            messageId: "addFallbackDirective",
+            data: { directive: "use client" },
+            suggestions: insertSuggestions(
+              `"use client";\nexport default async function () { const data = await load(); return data ? <main/> : null; }`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          { directive: "use client", infer: true, fixMode: "suggest" },
+        ],
+      },
+
+      // infer: no evidence falls back to the configured directive
+      {
+        filename: "/app/components/Plain.tsx",
+        code: `export const A = () => <div/>;`,
+        output: `"use server";\nexport const A = () => <div/>;`,
+        errors: [
+          {
+            messageId: "addFallbackDirective",
+            data: { directive: "use server" },
+            suggestions: insertSuggestions(
+              `"use server";\nexport const A = () => <div/>;`,
+              "use server",
+              "use client",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", infer: true }],
+      },
+
+      // infer: locally shadowed browser globals are not evidence
+      {
+        filename: "/app/components/Shadowed.tsx",
+        code: `const window = {};\nexport const A = () => window;`,
+        output: `"use server";\nconst window = {};\nexport const A = () => window;`,
+        errors: [
+          {
+            messageId: "addFallbackDirective",
+            suggestions: insertSuggestions(
+              `"use server";\nconst window = {};\nexport const A = () => window;`,
+              "use server",
+              "use client",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", infer: true }],
+      },
+
+      // infer: inferred directives outside requireOneOf fall back
+      {
+        filename: "/app/components/Restricted.tsx",
+        code: `export async function save(){}`,
+        output: `"use client";\nexport async function save(){}`,
+        errors: [
+          {
+            messageId: "addFallbackDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport async function save(){}`,
+              "use client",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            infer: true,
+            requireOneOf: ["use client"],
+          },
+        ],
+      },
+
+      // overrides: the matched directive is required even if another "use" exists;
+      // a contradicting one is only suggested to be replaced
+      {
+        filename: "/repo/app/actions/save.tsx",
+        code: `"use client";\nexport async function save(){}`,
+        errors: [
+          {
+            messageId: "overrideMismatch",
+            data: {
+              found: "use client",
+              directive: "use server",
+              pattern: "**/actions/**",
+            },
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: {
+                  found: "use client",
+                  directive: "use server",
+                  pattern: "**/actions/**",
+                },
+                output: `"use server";\nexport async function save(){}`,
+              },
+            ],
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            overrides: [
+              { files: "**/actions/**", directive: "use server" },
+              { files: ["**/components/client/**"], directive: "use client" },
+              { files: "**/app/**/route.tsx", directive: null },
+            ],
+          },
+        ],
+      },
+
+      // overrides: other directives don't count but stay
+      {
+        filename: "/repo/app/actions/save.tsx",
+        code: `"use no memo";\nexport async function save(){}`,
+        output: `"use server";\n"use no memo";\nexport async function save(){}`,
+        errors: [
+          {
+            messageId: "addOverrideDirective",
+            data: { directive: "use server", pattern: "**/actions/**" },
+            suggestions: insertSuggestions(
+              `"use server";\n"use no memo";\nexport async function save(){}`,
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            overrides: [{ files: "**/actions/**", directive: "use server" }],
+          },
+        ],
+      },
+
+      // overrides: the first matching override wins and beats infer
+      {
+        filename: "/repo/components/client/actions/Form.tsx",
+        code: `export const Form = () => <form/>;`,
+        output: `"use server";\nexport const Form = () => <form/>;`,
+        errors: [
+          {
+            messageId: "addOverrideDirective",
+            data: { directive: "use server", pattern: "**/actions/**" },
+            suggestions: insertSuggestions(
+              `"use server";\nexport const Form = () => <form/>;`,
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            infer: true,
+            overrides: [
+              { files: "**/actions/**", directive: "use server" },
+              { files: ["**/components/client/**"], directive: "use client" },
+              { files: "**/app/**/route.tsx", directive: null },
+            ],
+          },
+        ],
+      },
+
+      // overrides: files matching no override use the base options
+      {
+        filename: "/repo/components/Card.tsx",
+        code: `export const Card = () => <div/>;`,
+        output: `"use client";\nexport const Card = () => <div/>;`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const Card = () => <div/>;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            overrides: [
+              { files: "**/actions/**", directive: "use server" },
+              { files: ["**/components/client/**"], directive: "use client" },
+              { files: "**/app/**/route.tsx", directive: null },
+            ],
+          },
+        ],
+      },
+
+      // `!` re-includes ignored files; the last matching pattern wins
+      {
+        filename: inCwd("src/generated/keep/Widget.tsx"),
+        code: `export const A = 1;`,
+        output: `"use client";\nexport const A = 1;`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const A = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          {
+            ignore: ["src/generated/**", "!src/generated/keep/**"],
+            directive: "use client",
+          },
+        ],
+      },
+
+      // include: matching files are checked, ignore still applies to others
+      {
+        filename: inCwd("src/app/Page.tsx"),
+        code: `export const A = 1;`,
+        output: `"use client";\nexport const A = 1;`,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const A = 1;`,
+              "use client",
+              "use server",
+            ),
+          },
+        ],
+        options: [
+          {
+            include: ["src/**"],
+            ignore: ["src/vendor/**"],
+            directive: "use client",
+          },
+        ],
+      },
+
+      // suffixes: a missing directive is inserted
+      {
+        filename: "/repo/app/Chart.client.tsx",
+        code: `export const Chart = () => <canvas/>;`,
+        output: `"use client";\nexport const Chart = () => <canvas/>;`,
+        errors: [
+          {
+            messageId: "addSuffixDirective",
+            data: { directive: "use client", suffix: "client" },
+            suggestions: insertSuggestions(
+              `"use client";\nexport const Chart = () => <canvas/>;`,
+              "use client",
+            ),
+          },
+        ],
+        options: [{ directive: "use server", suffixes: true }],
+      },
+
+      // suffixes: a directive of the other side is a mismatch
+      {
+        filename: "/repo/app/db.server.ts",
+        code: `'use client';\nexport const db = {};`,
+        errors: [
+          {
+            messageId: "suffixMismatch",
+            data: {
+              found: "use client",
+              directive: "use server",
+              suffix: "server",
+            },
+            suggestions: [
+              {
+                messageId: "replaceDirective",
+                data: {
+                  found: "use client",
+                  directive: "use server",
+                  suffix: "server",
+                },
+                output: `'use server';\nexport const db = {};`,
+              },
+            ],
+          },
+        ],
+        options: [{ directive: "use client", suffixes: true }],
+      },
+
+      // suffixes: custom suffixes
+      {
+        filename: "/repo/src/.edge/handler.js",
+        code: `export const handler = () => {};`,
+        output: `"use edge";\nexport const handler = () => {};`,
+        errors: [
+          {
+            messageId: "addSuffixDirective",
+            data: { directive: "use edge", suffix: "edge" },
+            suggestions: insertSuggestions(
+              `"use edge";\nexport const handler = () => {};`,
+              "use edge",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            suffixes: { edge: "use edge", server: "use server" },
+          },
+        ],
+      },
+
+      // fixMode "suggest": no autofix, one suggestion per requireOneOf entry
+      {
+        filename: "/app/components/Pick.tsx",
+        code: `export const A = () => <div/>;`,
+        output: null,
+        errors: [
+          {
+            messageId: "addDirective",
+            suggestions: insertSuggestions(
+              `"use client";\nexport const A = () => <div/>;`,
+              "use client",
+              "use server",
+              "use cache",
+            ),
+          },
+        ],
+        options: [
+          {
+            directive: "use client",
+            requireOneOf: ["use server", "use client", "use cache"],
+            fixMode: "suggest",
+          },
+        ],
+      },
+
+      // fixMode "none": report only
+      {
+        filename: "/app/components/Manual.tsx",
+        code: `export const A = () => <div/>;`,
+        output: null,
+        errors: [{ messageId: "addDirective", suggestions: [] }],
+        options: [{ directive: "use client", fixMode: "none" }],
+      },
     ],
   });
 
@@ -0,0 +1,109 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/use-directive-order.js";
+
+describe("explicit-use-directives/use-directive-order", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+    },
+  });
+
+  tester.run("use-directive-order", rule, {
+    valid: [
+      {
+        code: `"use strict";\n"use client";\n"use no memo";\nconst A = 1;`,
+      },
+      {
+        code: `"use client";\nconst A = 1;`,
+      },
+      // directives of the same rank keep their order
+      {
+        code: `"use client";\n"use no memo";\n"use dom";`,
+        options: [{ order: ["use client", "use *"] }],
+      },
+      // exact entries win over earlier wildcards
+      {
+        code: `"use cache: remote";\n"use client";`,
+        options: [{ order: ["use cache*", "use *", "use client"] }],
+      },
+    ],
+    invalid: [
+      {
+        code: `"use client";\n"use strict";\n\nconst A = 1;`,
+        output: `"use strict";\n"use client";\n\nconst A = 1;`,
+        errors: [
+          {
+            messageId: "unsortedDirective",
+            data: { directive: "use strict", previous: "use client" },
+          },
+        ],
+      },
+      // quotes, semicolons and trailing comments move with the directive
+      {
+        code: `'use no memo' // opt out\n"use client"; /* boundary */\n'use strict';\nconst A = 1;`,
+        output: `'use strict';\n"use client"; /* boundary */\n'use no memo' // opt out\nconst A = 1;`,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      // a directive without a semicolon moved before an ASI hazard gets one
+      {
+        code: `"use client" // boundary\n"use strict";\n[1].map(f);`,
+        output: `"use strict";\n"use client"; // boundary\n[1].map(f);`,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      {
+        code: `"use client"\n"use strict";\nconst A = 1;`,
+        output: `"use strict";\n"use client"\nconst A = 1;`,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      // no fix when a trailing comment would move in front of code
+      {
+        code: `"use client"; // keep\n"use strict"; foo()`,
+        output: null,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      {
+        code: `"use client" // c\n"use strict"\n;[1].map(f)`,
+        output: null,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      {
+        code: `"use client";\n"use strict"; foo()`,
+        output: `"use strict";\n"use client"; foo()`,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      // comments on their own line and the gaps stay in place
+      {
+        code: `"use server";\n\n// explains the next one\n"use strict";\nconst A = 1;`,
+        output: `"use strict";\n\n// explains the next one\n"use server";\nconst A = 1;`,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+      // wildcard groups and unmatched directives last
+      {
+        code: `"use dom";\n"use cache: private";\n"use client";`,
+        output: `"use client";\n"use cache: private";\n"use dom";`,
+        errors: [
+          {
+            messageId: "unsortedDirective",
+            data: { directive: "use cache: private", previous: "use dom" },
+          },
+        ],
+        options: [{ order: ["use client", "use cache*"] }],
+      },
+      // directives sharing a line are reported but not moved
+      {
+        code: `"use client"; "use strict"; // both\nconst A = 1;`,
+        output: null,
+        errors: [{ messageId: "unsortedDirective" }],
+      },
+    ],
+  });
+
+  // Vitest needs at least one "it" inside "describe" to show up green,
+  // even though RuleTester already throws on failures.
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {
+    // If we get here, RuleTester did not throw.
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/use-directive-style.js";
+
+describe("explicit-use-directives/use-directive-style", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+    },
+  });
+
+  tester.run("use-directive-style", rule, {
+    valid: [
+      // defaults: double quotes and semicolons
+      { code: `"use client";\nimport x from "x";` },
+      {
+        code: `'use client'\nimport x from 'x'`,
+        options: [{ quotes: "single", semi: false }],
+      },
+      // consistent-with-file follows the other string literals
+      {
+        code: `'use client';\nimport x from 'x';\nconst y = 'y';`,
+        options: [{ quotes: "consistent-with-file" }],
+      },
+      // without other strings it falls back to double quotes
+      {
+        code: `"use client";\nconst y = 1;`,
+        options: [{ quotes: "consistent-with-file" }],
+      },
+      // semicolons that prevent ASI hazards stay
+      {
+        code: `"use client";\n[1, 2].forEach(f)`,
+        options: [{ semi: false }],
+      },
+      { code: `"use client"; foo()`, options: [{ semi: false }] },
+      // directives containing quotes keep theirs
+      { code: `'say "hi"';`, options: [{ quotes: "double" }] },
+      // non-`use` directives may use any casing
+      { code: `"ngInject";` },
+    ],
+    invalid: [
+      {
+        code: `'use client';\nimport x from "x";`,
+        output: `"use client";\nimport x from "x";`,
+        errors: [
+          {
+            messageId: "wrongQuotes",
+            data: { directive: "use client", expected: "double" },
+          },
+        ],
+      },
+      {
+        code: `"use client";\nimport x from 'x';`,
+        output: `'use client';\nimport x from 'x';`,
+        options: [{ quotes: "single" }],
+        errors: [
+          {
+            messageId: "wrongQuotes",
+            data: { directive: "use client", expected: "single" },
+          },
+        ],
+      },
+      {
+        code: `"use client";\nimport x from 'x';\nimport y from 'y';\nimport z from "z";`,
+        output: `'use client';\nimport x from 'x';\nimport y from 'y';\nimport z from "z";`,
+        options: [{ quotes: "consistent-with-file" }],
+        errors: [{ messageId: "wrongQuotes" }],
+      },
+      {
+        code: `"use client"\nimport x from "x";`,
+        output: `"use client";\nimport x from "x";`,
+        errors: [{ messageId: "missingSemi" }],
+      },
+      {
+        code: `"use client";\n"use strict";\nimport x from "x"`,
+        output: `"use client"\n"use strict"\nimport x from "x"`,
+        options: [{ semi: false }],
+        errors: [{ messageId: "extraSemi" }, { messageId: "extraSemi" }],
+      },
+      {
+        code: `"Use Client";`,
+        output: `"use client";`,
+        errors: [
+          { messageId: "notLowercase", data: { directive: "Use Client" } },
+        ],
+      },
+    ],
+  });
+
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {});
+});
@@ -0,0 +1,168 @@
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import rule from "../src/rules/valid-function-directives.js";
+
+describe("explicit-use-directives/valid-function-directives", () => {
+  const tester = new RuleTester({
+    languageOptions: {
+      ecmaVersion: 2024,
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+  });
+
+  tester.run("valid-function-directives", rule, {
+    valid: [
+      // inline server action in a server component
+      {
+        code: `export default function Page(){\n  async function save(data){\n    "use server";\n    await db.save(data);\n  }\n  return <form action={save}/>;\n}`,
+      },
+      {
+        code: `export const load = async () => {\n  "use cache";\n  return fetch("/x");\n};`,
+      },
+      {
+        code: `export async function load(){\n  "use cache: remote";\n  return 1;\n}`,
+      },
+      // "use no memo" has no async requirement and is fine in client modules
+      {
+        code: `"use client";\nexport function List(){\n  "use no memo";\n  return <ul/>;\n}`,
+      },
+      // plain strings in function bodies
+      {
+        code: `function f(){\n  g();\n  "user";\n}`,
+      },
+    ],
+    invalid: [
+      {
+        code: `function save(){\n  "use server";\n}`,
+        errors: [
+          {
+            messageId: "nonAsyncFunction",
+            data: { directive: "use server" },
+            suggestions: [
+              {
+                messageId: "makeAsync",
+                output: `async function save(){\n  "use server";\n}`,
+              },
+            ],
+          },
+        ],
+      },
+      // methods get `async` before their name
+      {
+        code: `const api = { get() { "use cache"; return 1; } };\nclass A { static load() { "use cache"; } }`,
+        errors: [
+          {
+            messageId: "nonAsyncFunction",
+            data: { directive: "use cache" },
+            suggestions: [
+              {
+                messageId: "makeAsync",
+                output: `const api = { async get() { "use cache"; return 1; } };\nclass A { static load() { "use cache"; } }`,
+              },
+            ],
+          },
+          {
+            messageId: "nonAsyncFunction",
+            suggestions: [
+              {
+                messageId: "makeAsync",
+                output: `const api = { get() { "use cache"; return 1; } };\nclass A { static async load() { "use cache"; } }`,
+              },
+            ],
+          },
+        ],
+      },
+      // no suggestion where `async` is not allowed
+      {
+        code: `class A { get value() { "use cache"; return 1; } }`,
+        errors: [{ messageId: "nonAsyncFunction", suggestions: [] }],
+      },
+      {
+        code: `"use client";\nexport function Form(){\n  async function save(){\n    "use server";\n  }\n  return <form action={save}/>;\n}`,
+        errors: [
+          {
+            messageId: "functionDirectiveInClientModule",
+            data: { directive: "use server" },
+          },
+        ],
+      },
+      {
+        code: `"use client";\nexport const load = async () => { "use cache: private"; };`,
+        errors: [
+          {
+            messageId: "functionDirectiveInClientModule",
+            data: { directive: "use cache: private" },
+          },
+        ],
+      },
+      // misplaced directives move to the start of the body
+      {
+        code: `async function save(data){\n  validate(data);\n  "use server";\n  await db.save(data);\n}`,
+        errors: [
+          {
+            messageId: "misplacedFunctionDirective",
+            data: { directive: "use server" },
+            suggestions: [
+              {
+                messageId: "moveToTop",
+                output: `async function save(data){\n  "use server";\n  validate(data);\n  await db.save(data);\n}`,
+              },
+            ],
+          },
+        ],
+      },
+      // the moved directive gets the file's line break
+      {
+        code: `async function save(data){\r\n  validate(data);\r\n  "use server";\r\n}`,
+        errors: [
+          {
+            messageId: "misplacedFunctionDirective",
+            suggestions: [
+              {
+                messageId: "moveToTop",
+                output: `async function save(data){\r\n  "use server";\r\n  validate(data);\r\n}`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: `const f = () => { g(); 'use no memo'; };`,
+        errors: [
+          {
+            messageId: "misplacedFunctionDirective",
+            suggestions: [
+              {
+                messageId: "moveToTop",
+                output: `const f = () => { 'use no memo'; g();  };`,
+              },
+            ],
+          },
+        ],
+      },
+      // already in the prologue: only the stray copy is removed
+      {
+        code: `async function f(){\n  "use server";\n  g();\n  "use server";\n}`,
+        errors: [
+          {
+            messageId: "misplacedFunctionDirective",
+            suggestions: [
+              {
+                messageId: "moveToTop",
+                output: `async function f(){\n  "use server";\n  g();\n}`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  // Vitest needs at least one "it" inside "describe" to show up green,
+  // even though RuleTester already throws on failures.
+  // eslint-disable-next-line vitest/expect-expect
+  it("ran RuleTester cases", () => {
+    // If we get here, RuleTester did not throw.
+  });
+});